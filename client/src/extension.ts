@@ -7,7 +7,7 @@
  * ------------------------------------------------------------------------------------------ */
 
 import * as path from 'path';
-import { workspace, ExtensionContext } from 'vscode';
+import { workspace, ExtensionContext, commands, env } from 'vscode';
 
 import {
 	LanguageClient,
@@ -40,7 +40,10 @@ export function activate(context: ExtensionContext) {
 		documentSelector: [{ scheme: 'file', language: 'solidity', pattern: '**/*.sol' }],
 		synchronize: {
 			// Notify the server about specific file changes contained in the workspace
-			fileEvents: workspace.createFileSystemWatcher("**/*.sol")
+			fileEvents: [
+				workspace.createFileSystemWatcher("**/*.sol"),
+				workspace.createFileSystemWatcher("**/{.openzeppelin-ls.json,foundry.toml,hardhat.config.ts,hardhat.config.js,remappings.txt,package.json}")
+			]
 		}
 	};
 
@@ -52,6 +55,11 @@ export function activate(context: ExtensionContext) {
 		clientOptions
 	);
 
+	// Commands used by code lenses that need access to the editor
+	context.subscriptions.push(
+		commands.registerCommand('openzeppelinLS.copyToClipboard', (text: string) => env.clipboard.writeText(text))
+	);
+
 	// Start the client. This will also launch the server
 	client.start();
 }
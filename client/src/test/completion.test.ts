@@ -8,13 +8,22 @@ import * as assert from 'assert';
 import { getDocUri, activate } from './helper';
 
 suite('Should do completion', () => {
-	const docUri = getDocUri('completion.txt');
+	const docUri = getDocUri('completion.sol');
 
-	test('Completes JS/TS in txt file', async () => {
-		await testCompletion(docUri, new vscode.Position(0, 0), {
+	test('Completes @custom: NatSpec tags', async () => {
+		await testCompletion(docUri, new vscode.Position(3, 16), {
 			items: [
-				{ label: 'JavaScript', kind: vscode.CompletionItemKind.Text },
-				{ label: 'TypeScript', kind: vscode.CompletionItemKind.Text }
+				{ label: 'storage-location erc7201:', kind: vscode.CompletionItemKind.Keyword },
+				{ label: 'oz-upgrades', kind: vscode.CompletionItemKind.Keyword },
+				{ label: 'oz-upgrades-from', kind: vscode.CompletionItemKind.Keyword }
+			]
+		});
+	});
+
+	test('Completes expected namespace id', async () => {
+		await testCompletion(docUri, new vscode.Position(4, 41), {
+			items: [
+				{ label: 'testFixture.Example', kind: vscode.CompletionItemKind.Value }
 			]
 		});
 	});
@@ -34,7 +43,7 @@ async function testCompletion(
 		position
 	)) as vscode.CompletionList;
 
-	assert.ok(actualCompletionList.items.length >= 2);
+	assert.ok(actualCompletionList.items.length >= expectedCompletionList.items.length);
 	expectedCompletionList.items.forEach((expectedItem, i) => {
 		const actualItem = actualCompletionList.items[i];
 		assert.equal(actualItem.label, expectedItem.label);
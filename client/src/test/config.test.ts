@@ -0,0 +1,69 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import { getDocUri, activate, testDiagnostics, toRange } from './helper';
+
+suite('Should resolve project config', () => {
+	const docUri = getDocUri('config/src/Config.sol');
+
+	test('Uses the namespace prefix and severities from .openzeppelin-ls.json', async () => {
+		await testDiagnostics(docUri, ['NamespaceIdMismatch'], [
+			{ message: 'Namespace id does not match contract name', range: toRange(5, 4, 5, 55), severity: vscode.DiagnosticSeverity.Warning, code: 'NamespaceIdMismatch' }
+		]);
+	});
+
+	test('Completes namespace id with the configured prefix', async () => {
+		await activate(docUri);
+
+		const actualCompletionList = (await vscode.commands.executeCommand(
+			'vscode.executeCompletionItemProvider',
+			docUri,
+			new vscode.Position(5, 55)
+		)) as vscode.CompletionList;
+
+		assert.ok(actualCompletionList.items.length >= 1);
+		assert.equal(actualCompletionList.items[0].label, 'myproject.Config');
+		assert.equal(actualCompletionList.items[0].kind, vscode.CompletionItemKind.Value);
+	});
+
+	test('Prefers the namespace prefix from .openzeppelin-ls.json over the editor setting', async () => {
+		await activate(docUri);
+
+		const configuration = vscode.workspace.getConfiguration('openzeppelinLS');
+		await configuration.update('namespacePrefix', 'editor', vscode.ConfigurationTarget.Global);
+		try {
+			const actualCompletionList = (await vscode.commands.executeCommand(
+				'vscode.executeCompletionItemProvider',
+				docUri,
+				new vscode.Position(5, 55)
+			)) as vscode.CompletionList;
+
+			assert.ok(actualCompletionList.items.length >= 1);
+			assert.equal(actualCompletionList.items[0].label, 'myproject.Config');
+		} finally {
+			await configuration.update('namespacePrefix', undefined, vscode.ConfigurationTarget.Global);
+		}
+	});
+
+	test('Completes the storage location tag with the configured formula', async () => {
+		await activate(docUri);
+
+		const actualCompletionList = (await vscode.commands.executeCommand(
+			'vscode.executeCompletionItemProvider',
+			docUri,
+			new vscode.Position(3, 12)
+		)) as vscode.CompletionList;
+
+		assert.ok(actualCompletionList.items.some(item => item.label === 'storage-location keccak256:'));
+		assert.ok(!actualCompletionList.items.some(item => item.label === 'storage-location erc7201:'));
+	});
+
+	test('Ignores namespaces outside the src folder from foundry.toml', async () => {
+		// config/test/ConfigTest.sol uses the same namespace id, but is not part of the Foundry project's sources
+		await testDiagnostics(docUri, ['DuplicateNamespaceIdInWorkspace'], []);
+	});
+});
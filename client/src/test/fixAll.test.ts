@@ -0,0 +1,37 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import { getDocUri, activate, doc } from './helper';
+
+suite('Should fix all namespace issues', () => {
+	const docUri = getDocUri('fixAll.sol');
+
+	test('Fixes namespace id, hash comment and storage location', async () => {
+		await activate(docUri);
+
+		const codeActions = (await vscode.commands.executeCommand(
+			'vscode.executeCodeActionProvider',
+			docUri,
+			new vscode.Range(0, 0, 0, 0),
+			'source.fixAll.openzeppelin'
+		)) as vscode.CodeAction[];
+
+		const fixAll = codeActions.find(codeAction => codeAction.kind?.value === 'source.fixAll.openzeppelin');
+		assert.ok(fixAll?.edit !== undefined);
+
+		try {
+			assert.ok(await vscode.workspace.applyEdit(fixAll.edit));
+			const lines = doc.getText().split(/\r?\n/);
+			assert.equal(lines[5], '    /// @custom:storage-location erc7201:testFixture.FixAll');
+			assert.equal(lines[10], '    // keccak256(abi.encode(uint256(keccak256("testFixture.FixAll")) - 1)) & ~bytes32(uint256(0xff))');
+			assert.equal(lines[11], '    bytes32 private constant FixAllStorageLocation = 0x2263d5f13cbaeb5976e34d0f2d40308dbdff3f62e1df0faf656cb5293a3b6400;');
+		} finally {
+			// keep the fixture unchanged for other tests
+			await vscode.commands.executeCommand('workbench.action.files.revert');
+		}
+	});
+});
@@ -0,0 +1,49 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import { getDocUri, activate, doc } from './helper';
+
+suite('Should convert constructors to initializers', () => {
+	const docUri = getDocUri('initializer.sol');
+
+	test('Moves parent constructor calls into init calls and keeps other modifiers', async () => {
+		await activate(docUri);
+
+		const diagnostic = vscode.languages.getDiagnostics(docUri).find(diagnostic => diagnostic.code === 'UnsafeConstructor');
+		assert.ok(diagnostic !== undefined);
+
+		const codeActions = (await vscode.commands.executeCommand(
+			'vscode.executeCodeActionProvider',
+			docUri,
+			diagnostic.range
+		)) as vscode.CodeAction[];
+
+		const convert = codeActions.find(codeAction => codeAction.title === 'Convert constructor to initializer');
+		assert.ok(convert?.edit !== undefined);
+
+		try {
+			assert.ok(await vscode.workspace.applyEdit(convert.edit));
+			const lines = doc.getText().split(/\r?\n/);
+			// Initializable is inherited through Base, so it is not added again
+			assert.equal(lines[16], 'contract Derived is Base {');
+			assert.deepEqual(lines.slice(19, 28), [
+				'    /// @custom:oz-upgrades-unsafe-allow constructor',
+				'    constructor() {',
+				'        _disableInitializers();',
+				'    }',
+				'',
+				'    function initialize(uint256 a) public initializer onlyAdmin(a) {',
+				'        __Base_init(a);',
+				'        y = a;',
+				'    }',
+			]);
+		} finally {
+			// keep the fixture unchanged for other tests
+			await vscode.commands.executeCommand('workbench.action.files.revert');
+		}
+	});
+});
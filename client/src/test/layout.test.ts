@@ -0,0 +1,19 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as vscode from 'vscode';
+import { getDocUri, testDiagnostics, toRange } from './helper';
+
+suite('Should validate storage layout', () => {
+	const docUri = getDocUri('layout/MyTokenV2.sol');
+
+	test('Diagnoses changes from the @custom:oz-upgrades-from reference contract', async () => {
+		await testDiagnostics(docUri, ['StorageLayoutVariableReordered', 'StorageLayoutVariableTypeChanged', 'StorageLayoutVariableInserted'], [
+			{ message: 'Reordered `b`', range: toRange(8, 4, 8, 14), severity: vscode.DiagnosticSeverity.Error, code: 'StorageLayoutVariableReordered' },
+			{ message: 'Type of `b` changed from `uint256` to `uint128`', range: toRange(8, 4, 8, 14), severity: vscode.DiagnosticSeverity.Error, code: 'StorageLayoutVariableTypeChanged' },
+			{ message: 'Inserted `d`', range: toRange(6, 4, 6, 14), severity: vscode.DiagnosticSeverity.Error, code: 'StorageLayoutVariableInserted' }
+		]);
+	});
+});
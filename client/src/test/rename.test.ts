@@ -0,0 +1,62 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import { getDocUri, activate, doc } from './helper';
+
+suite('Should rename contracts', () => {
+	test('Renames references, derived names and the namespace id', async () => {
+		const docUri = getDocUri('rename.sol');
+		await activate(docUri);
+
+		const edit = (await vscode.commands.executeCommand(
+			'vscode.executeDocumentRenameProvider',
+			docUri,
+			new vscode.Position(4, 10),
+			'Tally'
+		)) as vscode.WorkspaceEdit;
+
+		try {
+			assert.ok(await vscode.workspace.applyEdit(edit));
+			const lines = doc.getText().split(/\r?\n/);
+			assert.equal(lines[4], 'contract Tally {');
+			assert.equal(lines[5], '    /// @custom:storage-location erc7201:testFixture.Tally');
+			assert.equal(lines[6], '    struct TallyStorage {');
+			assert.equal(lines[10], '    // keccak256(abi.encode(uint256(keccak256("testFixture.Tally")) - 1)) & ~bytes32(uint256(0xff))');
+			assert.equal(lines[11], '    bytes32 private constant TallyStorageLocation = 0x2a460e0c1c22439f162d4a1f14457c7291dad1a499057fed480ceb2e23960800;');
+			assert.equal(lines[13], '    function _getTallyStorage() private pure returns (TallyStorage storage $) {');
+			assert.equal(lines[20], '        TallyStorage storage $ = _getTallyStorage();');
+			assert.equal(lines[25], 'contract CounterUser {');
+			assert.equal(lines[26], '    function increment(Tally counter) public {');
+		} finally {
+			// keep the fixture unchanged for other tests
+			await vscode.commands.executeCommand('workbench.action.files.revert');
+		}
+	});
+
+	test('Keeps the namespace id of a contract that upgrades from another', async () => {
+		const docUri = getDocUri('renameUpgraded.sol');
+		await activate(docUri);
+
+		const edit = (await vscode.commands.executeCommand(
+			'vscode.executeDocumentRenameProvider',
+			docUri,
+			new vscode.Position(13, 10),
+			'BoxV2'
+		)) as vscode.WorkspaceEdit;
+
+		try {
+			assert.ok(await vscode.workspace.applyEdit(edit));
+			const lines = doc.getText().split(/\r?\n/);
+			assert.equal(lines[13], 'contract BoxV2 {');
+			assert.equal(lines[14], '    /// @custom:storage-location erc7201:testFixture.Box');
+			assert.equal(lines[15], '    struct BoxV2Storage {');
+		} finally {
+			// keep the fixture unchanged for other tests
+			await vscode.commands.executeCommand('workbench.action.files.revert');
+		}
+	});
+});
@@ -0,0 +1,47 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import { getDocUri, activate, doc, sleep } from './helper';
+
+suite('Should suppress diagnostics', () => {
+	const docUri = getDocUri('suppressions.sol');
+
+	test('Suppresses one code in a contract and keeps reporting the others', async () => {
+		await activate(docUri);
+
+		const diagnostic = vscode.languages.getDiagnostics(docUri).find(diagnostic => diagnostic.code === 'MissingDisableInitializers');
+		assert.ok(diagnostic !== undefined);
+
+		const codeActions = (await vscode.commands.executeCommand(
+			'vscode.executeCodeActionProvider',
+			docUri,
+			diagnostic.range
+		)) as vscode.CodeAction[];
+
+		const suppress = codeActions.find(codeAction => codeAction.title === 'Suppress MissingDisableInitializers in contract Suppressed');
+		assert.ok(suppress?.edit !== undefined);
+
+		try {
+			assert.ok(await vscode.workspace.applyEdit(suppress.edit));
+			await sleep(2000); // Wait for the document to be validated again
+
+			const lines = doc.getText().split(/\r?\n/);
+			assert.equal(lines[3], '/// @title Suppressed');
+			assert.equal(lines[4], '/// @custom:oz-upgrades');
+			assert.equal(lines[5], '/// @custom:oz-ls-ignore MissingDisableInitializers');
+
+			const codes = vscode.languages.getDiagnostics(docUri).map(diagnostic => diagnostic.code);
+			assert.ok(!codes.includes('MissingDisableInitializers'));
+			assert.ok(codes.includes('UnsafeConstructor'));
+			assert.ok(codes.includes('VariableCanBeNamespaced'));
+			assert.ok(codes.includes('ContractCanBeNamespaced'));
+		} finally {
+			// keep the fixture unchanged for other tests
+			await vscode.commands.executeCommand('workbench.action.files.revert');
+		}
+	});
+});
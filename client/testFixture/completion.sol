@@ -0,0 +1,6 @@
+pragma solidity ^0.8.20;
+
+contract Example {
+    /// @custom:
+    /// @custom:storage-location erc7201:
+}
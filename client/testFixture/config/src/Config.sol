@@ -0,0 +1,10 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @custom:oz-upgrades
+contract Config {
+    /// @custom:storage-location erc7201:example.Config
+    struct ConfigStorage {
+        uint256 value;
+    }
+}
@@ -0,0 +1,10 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @custom:oz-upgrades
+contract ConfigTest {
+    /// @custom:storage-location erc7201:example.Config
+    struct ConfigTestStorage {
+        uint256 value;
+    }
+}
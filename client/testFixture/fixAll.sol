@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @custom:oz-upgrades
+contract FixAll {
+    /// @custom:storage-location erc7201:wrong.FixAll
+    struct FixAllStorage {
+        uint256 value;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("wrong.FixAll")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant FixAllStorageLocation = 0x0000000000000000000000000000000000000000000000000000000000000000;
+}
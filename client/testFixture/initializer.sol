@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+abstract contract Initializable {
+    modifier initializer() { _; }
+    modifier onlyInitializing() { _; }
+    function _disableInitializers() internal {}
+}
+
+abstract contract Base is Initializable {
+    uint256 b;
+    modifier onlyAdmin(uint256 x) { _; }
+    function __Base_init(uint256 x) internal onlyInitializing { b = x; }
+}
+
+/// @custom:oz-upgrades
+contract Derived is Base {
+    uint256 y;
+
+    constructor(uint256 a) Base(a) initializer onlyAdmin(a) {
+        y = a;
+    }
+}
+
@@ -0,0 +1,9 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @custom:oz-upgrades
+contract MyTokenV1 {
+    uint256 a;
+    uint256 b;
+    uint256 c;
+}
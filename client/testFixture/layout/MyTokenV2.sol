@@ -0,0 +1,10 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @custom:oz-upgrades-from MyTokenV1
+contract MyTokenV2 {
+    uint256 a;
+    uint256 d;
+    uint256 c;
+    uint128 b;
+}
@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @custom:oz-upgrades
+contract Counter {
+    /// @custom:storage-location erc7201:testFixture.Counter
+    struct CounterStorage {
+        uint256 count;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("testFixture.Counter")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant CounterStorageLocation = 0x22118db9699e8ec57cf72146137d4c04e44e1454fda4061de84044ec0a8aae00;
+
+    function _getCounterStorage() private pure returns (CounterStorage storage $) {
+        assembly {
+            $.slot := CounterStorageLocation
+        }
+    }
+
+    function increment() public {
+        CounterStorage storage $ = _getCounterStorage();
+        $.count++;
+    }
+}
+
+contract CounterUser {
+    function increment(Counter counter) public {
+        counter.increment();
+    }
+}
@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @custom:oz-upgrades
+/// @custom:oz-ls-ignore NamespaceIdMismatch
+contract BoxV1 {
+    /// @custom:storage-location erc7201:testFixture.Box
+    struct BoxStorage {
+        uint256 value;
+    }
+}
+
+/// @custom:oz-upgrades-from BoxV1
+contract Box {
+    /// @custom:storage-location erc7201:testFixture.Box
+    struct BoxStorage {
+        uint256 value;
+    }
+}
@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @title Suppressed
+/// @custom:oz-upgrades
+contract Suppressed {
+    uint256 x;
+
+    constructor() {
+        x = 1;
+    }
+}
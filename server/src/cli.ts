@@ -0,0 +1,257 @@
+#!/usr/bin/env node
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { validateTextDocument } from './diagnostics';
+import { fixTextDocument, SAFE_FIX_CODES } from './fix';
+import { createUnifiedDiff } from './helpers/diff';
+import { setDiagnosticRelatedInformationCapability, setSettingsOverrides, workspaceFolders } from './environment';
+import { indexWorkspaceNamespaces } from './namespaceIndex';
+import { FileDiagnostics, formatReport, parseSeverity, REPORT_FORMATS, ReportFormat } from './report';
+import { OpenZeppelinLSSettings } from './settings';
+import { findSolidityFiles } from './workspace';
+
+const USAGE = `Usage: openzeppelin-ls check [options] [paths...]
+
+Validates the Solidity files in the given files or directories (default: the project root)
+with the same diagnostics as the language server. Settings are read from the
+.openzeppelin-ls.json file of each project, if any, and the options below take precedence.
+
+Options:
+  --root <dir>                   Project root, used to infer the Solidity version and namespace prefix (default: current directory)
+  --format <text|json|sarif>     Output format (default: text)
+  --fail-on <severity|none>      Exit with code 1 if any diagnostic has this severity or higher: error, warning, information, hint (default: error).
+                                 Files that cannot be validated always exit with code 1
+  --solidity-version <version>   Solidity version to use instead of inferring it
+  --namespace-prefix <prefix>    Namespace prefix to use instead of inferring it
+  --namespace-formula <name>     Formula for new namespaces, such as erc7201 or keccak256
+  --fix                          Apply the quick fixes for namespace id, comment and hash mismatches to the files and report the remaining diagnostics
+  --fix-code <code>              With --fix, also apply the quick fixes for diagnostics with this code, such as ContractCanBeNamespaced
+                                 or UnsafeConstructor. Can be repeated. Fixes that move state variables are not applied to
+                                 contracts with @custom:oz-upgrades-from
+  --dry-run                      With --fix, print a unified diff of the fixes instead of writing them
+  --verbose                      Print logs to stderr
+  -h, --help                     Show this help
+`;
+
+type CheckOptions = {
+	root: string;
+	paths: string[];
+	format: ReportFormat;
+	failOn: DiagnosticSeverity | undefined;
+	settings: OpenZeppelinLSSettings;
+	fix: boolean;
+	/**
+	 * The codes of the diagnostics whose quick fixes are applied with --fix
+	 */
+	fixCodes: string[];
+	dryRun: boolean;
+	verbose: boolean;
+}
+
+class UsageError extends Error {}
+
+/**
+ * The code of the error that is reported for a file that could not be validated
+ */
+const VALIDATION_FAILED = "ValidationFailed";
+
+function parseArgs(args: string[]): CheckOptions {
+	const options: CheckOptions = {
+		root: process.cwd(),
+		paths: [],
+		format: 'text',
+		failOn: DiagnosticSeverity.Error,
+		settings: {},
+		fix: false,
+		fixCodes: [...SAFE_FIX_CODES],
+		dryRun: false,
+		verbose: false,
+	};
+
+	const fixCodes: string[] = [];
+
+	const getValue = (i: number) => {
+		if (i + 1 >= args.length) {
+			throw new UsageError(`Missing value for ${args[i]}`);
+		}
+		return args[i + 1];
+	};
+
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i];
+		switch (arg) {
+			case '--root':
+				options.root = path.resolve(getValue(i++));
+				break;
+			case '--format': {
+				const format = getValue(i++);
+				if (!REPORT_FORMATS.includes(format as ReportFormat)) {
+					throw new UsageError(`Invalid format: ${format}`);
+				}
+				options.format = format as ReportFormat;
+				break;
+			}
+			case '--fail-on': {
+				const value = getValue(i++);
+				const severity = parseSeverity(value);
+				if (severity === undefined && value !== 'none') {
+					throw new UsageError(`Invalid severity: ${value}`);
+				}
+				options.failOn = severity;
+				break;
+			}
+			case '--solidity-version':
+				options.settings.solidityVersion = getValue(i++);
+				break;
+			case '--namespace-prefix':
+				options.settings.namespacePrefix = getValue(i++);
+				break;
+			case '--namespace-formula':
+				options.settings.namespaceFormula = getValue(i++);
+				break;
+			case '--fix':
+				options.fix = true;
+				break;
+			case '--fix-code':
+				fixCodes.push(getValue(i++));
+				break;
+			case '--dry-run':
+				options.dryRun = true;
+				break;
+			case '--verbose':
+				options.verbose = true;
+				break;
+			default:
+				if (arg.startsWith('-')) {
+					throw new UsageError(`Unknown option: ${arg}`);
+				}
+				options.paths.push(path.resolve(arg));
+				break;
+		}
+	}
+
+	if (options.dryRun && !options.fix) {
+		throw new UsageError('--dry-run can only be used with --fix');
+	}
+	if (fixCodes.length > 0 && !options.fix) {
+		throw new UsageError('--fix-code can only be used with --fix');
+	}
+	options.fixCodes.push(...fixCodes);
+	if (options.paths.length === 0) {
+		options.paths.push(options.root);
+	}
+	return options;
+}
+
+/**
+ * Gets the Solidity files in the given paths, which can be files or directories.
+ */
+async function getFiles(paths: string[]): Promise<string[]> {
+	const files: string[] = [];
+	for (const p of paths) {
+		const stat = await fs.stat(p).catch(() => undefined);
+		if (stat === undefined) {
+			throw new UsageError(`Path not found: ${p}`);
+		}
+		if (stat.isDirectory()) {
+			files.push(...await findSolidityFiles([p]));
+		} else {
+			files.push(p);
+		}
+	}
+	return [...new Set(files)];
+}
+
+async function check(options: CheckOptions): Promise<number> {
+	workspaceFolders.push(options.root);
+	setSettingsOverrides(options.settings);
+	setDiagnosticRelatedInformationCapability(true);
+
+	const files = await getFiles(options.paths);
+	await indexWorkspaceNamespaces();
+
+	const results: FileDiagnostics[] = [];
+	const diffs: string[] = [];
+	let validationFailed = false;
+	for (const file of files) {
+		const text = await fs.readFile(file, 'utf8');
+		const textDocument = TextDocument.create(URI.file(file).toString(), 'solidity', 0, text);
+		const relativePath = path.relative(options.root, file);
+
+		let diagnostics: Diagnostic[];
+		try {
+			if (options.fix) {
+				const fixResult = await fixTextDocument(textDocument, options.fixCodes);
+				const fixedText = fixResult.textDocument.getText();
+				if (fixedText !== text) {
+					if (options.dryRun) {
+						diffs.push(createUnifiedDiff(text, fixedText, `a/${relativePath}`, `b/${relativePath}`));
+					} else {
+						await fs.writeFile(file, fixedText);
+						console.error(`Fixed ${relativePath}: ${fixResult.appliedFixes.join(', ')}`);
+					}
+				}
+				diagnostics = fixResult.diagnostics;
+			} else {
+				diagnostics = await validateTextDocument(textDocument);
+			}
+		} catch (e: any) {
+			// such as an unsupported Solidity version, which must not let the check pass
+			diagnostics = [{
+				severity: DiagnosticSeverity.Error,
+				range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+				message: `Could not validate file: ${e?.message ?? e}`,
+				source: "OpenZeppelin Language Server",
+				code: VALIDATION_FAILED,
+			}];
+			validationFailed = true;
+		}
+		results.push({ file: relativePath, diagnostics });
+	}
+
+	if (options.dryRun) {
+		process.stdout.write(diffs.join(''));
+	} else {
+		process.stdout.write(formatReport(results, options.format));
+	}
+
+	const failOn = options.failOn;
+	const failed = failOn !== undefined && results.some(result => result.diagnostics.some(diagnostic => (diagnostic.severity ?? DiagnosticSeverity.Error) <= failOn));
+	return failed || validationFailed ? 1 : 0;
+}
+
+async function main(args: string[]): Promise<number> {
+	const [command, ...commandArgs] = args;
+	if (command === undefined || command === '-h' || command === '--help' || commandArgs.includes('-h') || commandArgs.includes('--help')) {
+		process.stdout.write(USAGE);
+		return 0;
+	}
+
+	try {
+		if (command !== 'check') {
+			throw new UsageError(`Unknown command: ${command}`);
+		}
+		const options = parseArgs(commandArgs);
+
+		// the validation logic logs its progress, which must not end up in the report
+		console.log = options.verbose ? console.error : () => {};
+
+		return await check(options);
+	} catch (e: any) {
+		if (e instanceof UsageError) {
+			process.stderr.write(`${e.message}\n\n${USAGE}`);
+			return 2;
+		}
+		throw e;
+	}
+}
+
+main(process.argv.slice(2)).then(exitCode => {
+	process.exitCode = exitCode;
+}).catch(e => {
+	console.error(e);
+	process.exitCode = 1;
+});
@@ -0,0 +1,90 @@
+import { Diagnostic, CodeActionKind, CodeAction, WorkspaceEdit } from 'vscode-languageserver/node';
+import {
+	Range,
+	TextDocument,
+	TextEdit
+} from 'vscode-languageserver-textdocument';
+import { CONTRACT_CAN_BE_NAMESPACED, NAMESPACE_HASH_MISMATCH, NAMESPACE_ID_MISMATCH, NAMESPACE_ID_MISMATCH_HASH_COMMENT, NAMESPACE_STANDALONE_HASH_MISMATCH, UNSAFE_CONSTRUCTOR } from './diagnostics';
+import { getConvertConstructorToInitializerQuickFix, getMoveAllVariablesToNamespaceQuickFix } from './quickfixes';
+import { getNamespaceFormulaSetting, getNamespacePrefix } from './settings';
+import { NamespaceableContract } from './namespace';
+import { applyEol, inferFormatting } from './formatting';
+
+/**
+ * Gets the quick fixes for the given diagnostics.
+ */
+export async function getCodeActions(diagnostics: Diagnostic[], textDocument: TextDocument) : Promise<CodeAction[]> {
+	let codeActions : CodeAction[] = [];
+	try {	
+		const formatting = await inferFormatting(textDocument);
+		for (let i = 0; i < diagnostics.length; i++) {
+			let diagnostic = diagnostics[i];
+			if (String(diagnostic.code) === NAMESPACE_ID_MISMATCH) {
+				let title : string = "Replace namespace id";
+				// the data has the range of only the namespace id within the comment
+				let range : Range = diagnostic.data.range ?? diagnostic.range;
+				let replacement : string = String(diagnostic.data.replacement);
+				codeActions.push(getQuickFixReplacement([diagnostic], title, range, replacement, textDocument));
+			} else if (String(diagnostic.code) === NAMESPACE_ID_MISMATCH_HASH_COMMENT) {
+				let title : string = "Replace namespace comment";
+				// the data has the range of only the namespace id within the comment
+				let range : Range = diagnostic.data.range ?? diagnostic.range;
+				let replacement : string = String(diagnostic.data.replacement);
+				codeActions.push(getQuickFixReplacement([diagnostic], title, range, replacement, textDocument));
+			} else if (String(diagnostic.code) === NAMESPACE_HASH_MISMATCH) {
+				let title : string = "Recalculate hash using comment";
+				let range : Range = diagnostic.range;
+				let replacement : string = String(diagnostic.data.replacement);
+				codeActions.push(getQuickFixReplacement([diagnostic], title, range, replacement, textDocument));
+			} else if (String(diagnostic.code) === NAMESPACE_STANDALONE_HASH_MISMATCH) {
+				let title : string = "Recalculate hash using expected id";
+				let range : Range = diagnostic.range;
+				let replacement : string = String(diagnostic.data.replacement);
+				codeActions.push(getQuickFixReplacement([diagnostic], title, range, replacement, textDocument));
+			} else if (String(diagnostic.code) === CONTRACT_CAN_BE_NAMESPACED) {
+				const title = "Move all variables to namespace";
+				const prefix = await getNamespacePrefix(textDocument);;
+				const formula = await getNamespaceFormulaSetting(textDocument);
+				const contractName = (diagnostic.data as NamespaceableContract).name;
+				const quickfix = await getMoveAllVariablesToNamespaceQuickFix(diagnostics, title, prefix, formula, contractName, (diagnostic.data as NamespaceableContract).variables, textDocument, formatting.indent); // this fixes all diagnostics in scope
+				if (quickfix !== undefined) {
+					codeActions.push(quickfix);
+				}
+			} else if (String(diagnostic.code) === UNSAFE_CONSTRUCTOR) {
+				const title = "Convert constructor to initializer";
+				const contractName = String(diagnostic.data.contractName);
+				const quickfix = await getConvertConstructorToInitializerQuickFix([diagnostic], title, contractName, textDocument, formatting.indent);
+				if (quickfix !== undefined) {
+					codeActions.push(quickfix);
+				}
+			}
+		}
+
+		for (const codeAction of codeActions) {
+			if (codeAction.edit !== undefined) {
+				applyEol(codeAction.edit, formatting.eol);
+			}
+		}
+	} catch (e) {
+		console.error(e);
+	}
+
+	return codeActions;
+}
+
+function getQuickFixReplacement(fixesDiagnostics: Diagnostic[], title: string, range: Range, replacement: string, textDocument: TextDocument): CodeAction {
+	let textEdit: TextEdit = {
+		range: range,
+		newText: replacement
+	};
+	let workspaceEdit: WorkspaceEdit = {
+		changes: { [textDocument.uri]: [textEdit] }
+	};
+	let codeAction: CodeAction = {
+		title: title,
+		kind: CodeActionKind.QuickFix,
+		edit: workspaceEdit,
+		diagnostics: fixesDiagnostics,
+	};
+	return codeAction;
+}
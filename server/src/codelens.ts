@@ -0,0 +1,83 @@
+import { CodeLens, LSPAny, WorkspaceEdit } from 'vscode-languageserver/node';
+import { Position, TextDocument } from 'vscode-languageserver-textdocument';
+import { NonterminalKind } from '@nomicfoundation/slang/kinds';
+import { findLocationConstant, getLocationConstants, getStorageLayout, getStorageSlots, getTypeDefinitions } from './layout';
+import { printStorageLocationConstant } from './namespace';
+import { ERC7201_FORMULA, getNamespaceFormula } from './namespaceFormulas';
+import { parseTextDocument } from './documentCache';
+import { applyEol, Formatting, inferFormatting } from './formatting';
+
+/**
+ * Command implemented by the client, which copies its first argument to the clipboard.
+ */
+export const COPY_TO_CLIPBOARD_COMMAND = "openzeppelinLS.copyToClipboard";
+
+/**
+ * Command implemented by the server, which inserts a storage location constant for a namespace.
+ */
+export const INSERT_STORAGE_LOCATION_CONSTANT_COMMAND = "openzeppelinLS.insertStorageLocationConstant";
+
+/**
+ * Gets code lenses above each struct annotated with `@custom:storage-location <formula>:<id>`, showing the namespace's
+ * storage location and the number of slots used by the struct.
+ */
+export async function getCodeLenses(textDocument: TextDocument): Promise<CodeLens[]> {
+	const codeLenses: CodeLens[] = [];
+
+	const { parseOutput } = await parseTextDocument(textDocument);
+	const typeDefinitions = getTypeDefinitions(parseOutput, textDocument);
+	const formatting = await inferFormatting(textDocument);
+
+	const cursor = parseOutput.createTreeCursor();
+	while (cursor.goToNextNonterminalWithKind(NonterminalKind.ContractDefinition)) {
+		const namespaces = getStorageLayout(cursor, textDocument).namespaces;
+		const constants = getLocationConstants(cursor, textDocument);
+
+		for (const namespace of namespaces) {
+			const location = namespace.formula.calculateLocation(namespace.namespaceId);
+			const { totalSlots } = getStorageSlots(namespace.members, typeDefinitions);
+
+			codeLenses.push({
+				range: namespace.annotationRange,
+				command: {
+					title: `${namespace.formula.label} slot ${location} (${totalSlots} slot${totalSlots === 1 ? '' : 's'})`,
+					command: COPY_TO_CLIPBOARD_COMMAND,
+					arguments: [location],
+				}
+			});
+
+			if (findLocationConstant(namespace, namespaces, constants) === undefined) {
+				codeLenses.push({
+					range: namespace.annotationRange,
+					command: {
+						title: `Insert storage location constant`,
+						command: INSERT_STORAGE_LOCATION_CONSTANT_COMMAND,
+						arguments: [textDocument.uri, namespace.namespaceId, namespace.structName, namespace.range.end, formatting, namespace.formula.name],
+					}
+				});
+			}
+		}
+	}
+
+	return codeLenses;
+}
+
+/**
+ * Gets the edit for the insert storage location constant command, which inserts the constant after the namespace struct.
+ */
+export function getInsertStorageLocationConstantEdit(args: LSPAny[] | undefined): WorkspaceEdit | undefined {
+	if (args === undefined || args.length !== 6) {
+		return undefined;
+	}
+	const [uri, namespaceId, structName, structEnd, formatting, formulaName] = args as [string, string, string, Position, Formatting, string];
+	const formula = getNamespaceFormula(formulaName) ?? ERC7201_FORMULA;
+
+	return applyEol({
+		changes: {
+			[uri]: [{
+				range: { start: structEnd, end: structEnd },
+				newText: `\n\n${formatting.indent}${printStorageLocationConstant(namespaceId, `${structName}Location`, formatting.indent, formula)}`
+			}]
+		}
+	}, formatting.eol);
+}
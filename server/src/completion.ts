@@ -0,0 +1,133 @@
+import { CompletionItem, CompletionItemKind, Position } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { NonterminalKind } from '@nomicfoundation/slang/kinds';
+import { NonterminalNode } from '@nomicfoundation/slang/cst';
+import { ContractDefinition } from '@nomicfoundation/slang/ast';
+import assert = require('node:assert');
+import { parseTextDocument } from './documentCache';
+import { getNamespaceId } from './namespace';
+import { getNamespaceFormulaSetting, getNamespacePrefix } from './settings';
+import { NamespaceFormula } from './namespaceFormulas';
+
+type TagCompletion = {
+	tag: string;
+	documentation: string;
+	/**
+	 * Whether to trigger completion again after inserting the tag, to complete its value
+	 */
+	completeValue?: boolean;
+}
+
+const CUSTOM_TAGS: TagCompletion[] = [
+	{ tag: "oz-upgrades", documentation: "Marks a contract as upgradeable, so that it is validated by OpenZeppelin Upgrades." },
+	{ tag: "oz-upgrades-from ", documentation: "Marks a contract as an upgrade of the given reference contract, so that its storage layout is validated against the reference." },
+	{ tag: "oz-upgrades-unsafe-allow ", documentation: "Allows the given unsafe patterns in a contract or function.", completeValue: true },
+	{ tag: "oz-upgrades-unsafe-allow-reachable ", documentation: "Allows the given unsafe patterns in a function and in any code reachable from it.", completeValue: true },
+	{ tag: "oz-upgrades-validate-as-initializer", documentation: "Validates a function as an initializer." },
+	{ tag: "oz-renamed-from ", documentation: "Marks a variable as renamed from the given name in the previous version of the contract." },
+	{ tag: "oz-retyped-from ", documentation: "Marks a variable as retyped from the given type in the previous version of the contract." },
+];
+
+const UNSAFE_ALLOW_OPTIONS = [
+	"constructor",
+	"delegatecall",
+	"selfdestruct",
+	"state-variable-assignment",
+	"state-variable-immutable",
+	"external-library-linking",
+	"missing-public-upgradeto",
+	"internal-function-storage",
+	"missing-initializer",
+	"missing-initializer-call",
+	"duplicate-initializer-call",
+	"incorrect-initializer-order",
+];
+
+/**
+ * Gets completions within NatSpec comments for:
+ * - `@custom:` tags used by OpenZeppelin Upgrades and ERC-7201 namespaces
+ * - The expected namespace id after `@custom:storage-location <formula>:`
+ * - Unsafe patterns after `@custom:oz-upgrades-unsafe-allow`
+ */
+export async function getCompletions(textDocument: TextDocument, position: Position): Promise<CompletionItem[]> {
+	const linePrefix = textDocument.getText({ start: { line: position.line, character: 0 }, end: position });
+	if (!linePrefix.match(/^\s*(\/\/\/|\/\*\*|\*)/)) {
+		// not in a NatSpec comment
+		return [];
+	}
+
+	const namespaceIdMatch = linePrefix.match(/@custom:storage-location [\w-]+:([\w.-]*)$/);
+	if (namespaceIdMatch) {
+		const contractName = await getEnclosingContractName(textDocument, position);
+		if (contractName === undefined) {
+			return [];
+		}
+		const namespaceId = getNamespaceId(await getNamespacePrefix(textDocument), contractName);
+		return [{
+			label: namespaceId,
+			kind: CompletionItemKind.Value,
+			detail: "Expected namespace id",
+			textEdit: {
+				range: { start: { line: position.line, character: position.character - namespaceIdMatch[1].length }, end: position },
+				newText: namespaceId,
+			},
+		}];
+	}
+
+	const unsafeAllowMatch = linePrefix.match(/@custom:oz-upgrades-unsafe-allow(-reachable)?((?:\s+[\w-]+)*)\s+([\w-]*)$/);
+	if (unsafeAllowMatch) {
+		const existingOptions = unsafeAllowMatch[2].trim().split(/\s+/);
+		return UNSAFE_ALLOW_OPTIONS.filter(option => !existingOptions.includes(option)).map((option, i) => ({
+			label: option,
+			kind: CompletionItemKind.EnumMember,
+			sortText: String(i).padStart(2, '0'),
+			textEdit: {
+				range: { start: { line: position.line, character: position.character - unsafeAllowMatch[3].length }, end: position },
+				newText: option,
+			},
+		}));
+	}
+
+	const tagMatch = linePrefix.match(/@custom:([\w-]*)$/);
+	if (tagMatch) {
+		const tagCompletions = [getStorageLocationTagCompletion(await getNamespaceFormulaSetting(textDocument)), ...CUSTOM_TAGS];
+		return tagCompletions.map((tagCompletion, i) => ({
+			label: tagCompletion.tag.trim(),
+			kind: CompletionItemKind.Keyword,
+			documentation: tagCompletion.documentation,
+			sortText: String(i).padStart(2, '0'),
+			textEdit: {
+				range: { start: { line: position.line, character: position.character - tagMatch[1].length }, end: position },
+				newText: tagCompletion.tag,
+			},
+			command: tagCompletion.completeValue ? { title: "Complete value", command: "editor.action.triggerSuggest" } : undefined,
+		}));
+	}
+
+	return [];
+}
+
+/**
+ * Gets the completion for the `@custom:storage-location` tag with the formula for new namespaces
+ */
+function getStorageLocationTagCompletion(formula: NamespaceFormula): TagCompletion {
+	return { tag: `storage-location ${formula.name}:`, documentation: `Marks a struct as a namespace with the given id, using the ${formula.label} formula for its storage location.`, completeValue: true };
+}
+
+/**
+ * Gets the name of the contract whose definition contains the position, including the NatSpec above the contract
+ */
+async function getEnclosingContractName(textDocument: TextDocument, position: Position): Promise<string | undefined> {
+	const { parseOutput } = await parseTextDocument(textDocument);
+	const offset = textDocument.offsetAt(position);
+
+	const cursor = parseOutput.createTreeCursor();
+	while (cursor.goToNextNonterminalWithKind(NonterminalKind.ContractDefinition)) {
+		if (cursor.textRange.start.utf16 <= offset && offset <= cursor.textRange.end.utf16) {
+			const contractNode = cursor.node();
+			assert(contractNode instanceof NonterminalNode);
+			return new ContractDefinition(contractNode).name.text;
+		}
+	}
+	return undefined;
+}
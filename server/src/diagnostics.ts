@@ -2,18 +2,26 @@ import {
 	Diagnostic,
 	DiagnosticSeverity
 } from 'vscode-languageserver/node';
-import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Range, TextDocument } from 'vscode-languageserver-textdocument';
 import { NonterminalKind, TerminalKind } from "@nomicfoundation/slang/kinds";
-import { calculateERC7201StorageLocation, getNamespaceId, PublicGetter } from './namespace';
+import { findNamespaceIdInHashComment, findNamespaceIdInNatSpec, getNamespaceId, NamespaceableContract, PublicGetter } from './namespace';
+import { NamespaceFormula } from './namespaceFormulas';
 import { Language } from '@nomicfoundation/slang/language';
 import assert = require('node:assert');
 import { NonterminalNode, TerminalNode } from '@nomicfoundation/slang/cst';
-import { ContractDefinition, FunctionDefinition, StateVariableDefinition } from '@nomicfoundation/slang/ast';
+import { ContractDefinition, FunctionDefinition, InheritanceType, StateVariableDefinition } from '@nomicfoundation/slang/ast';
 import { cursor, parse_output, text_index } from '@nomicfoundation/slang';
-import { slangToVSCodeRange, getTrimmedRange, getNatSpec, getLastPrecedingTriviaWithKinds } from './helpers/slang';
-import { NamespaceableContract, addDiagnostic, workspaceFolders } from './server';
-import { getNamespacePrefix } from './settings';
-import { inferSolidityVersion } from './solidityVersion';
+import { slangToVSCodeRange, getTrimmedRange, getNatSpec, getLastPrecedingCommentBlock } from './helpers/slang';
+import { addDiagnostic, getDocumentSettings, workspaceFolders } from './environment';
+import { applySeveritySettings, getNamespacePrefix, isIncludedDocument } from './settings';
+import { parseTextDocument } from './documentCache';
+import { removeSuppressedDiagnostics } from './suppressions';
+import { compareStorageLayouts, getStorageLayout, getUpgradesFromReference, ReferenceContract, StorageLayoutChange } from './layout';
+import { findNamespaceCollisions, findReferenceContract, getNamespacesInDocument, indexDocument, IndexedNamespace } from './namespaceIndex';
+import { getImportedSourceUnits } from './imports';
+import { getLinearizedContracts, LinearizedContract } from './inheritance';
+import { getWorkspaceRelativePath, isWorkspaceSourceFile } from './workspace';
+import { URI } from 'vscode-uri';
 
 export const VARIABLE_CAN_BE_NAMESPACED = "VariableCanBeNamespaced";
 export const CONTRACT_CAN_BE_NAMESPACED = "ContractCanBeNamespaced";
@@ -22,14 +30,54 @@ export const NAMESPACE_ID_MISMATCH_HASH_COMMENT = "NamespaceIdMismatchHashCommen
 export const NAMESPACE_HASH_MISMATCH = "NamespaceHashMismatch";
 export const NAMESPACE_STANDALONE_HASH_MISMATCH = "NamespaceStandaloneHashMismatch";
 export const VARIABLE_HAS_INITIAL_VALUE = "VariableHasInitialValue";
+export const UNSAFE_CONSTRUCTOR = "UnsafeConstructor";
+export const UNSAFE_SELFDESTRUCT = "UnsafeSelfdestruct";
+export const UNSAFE_DELEGATECALL = "UnsafeDelegatecall";
+export const UNSAFE_STATE_VARIABLE_IMMUTABLE = "UnsafeStateVariableImmutable";
+export const MISSING_DISABLE_INITIALIZERS = "MissingDisableInitializers";
 export const MULTIPLE_NAMESPACES = "MultipleNamespaces";
 export const DUPLICATE_NAMESPACE_ID = "DuplicateNamespaceId";
+export const REFERENCE_CONTRACT_NOT_FOUND = "ReferenceContractNotFound";
+export const STORAGE_LAYOUT_VARIABLE_DELETED = "StorageLayoutVariableDeleted";
+export const STORAGE_LAYOUT_VARIABLE_REORDERED = "StorageLayoutVariableReordered";
+export const STORAGE_LAYOUT_VARIABLE_TYPE_CHANGED = "StorageLayoutVariableTypeChanged";
+export const STORAGE_LAYOUT_VARIABLE_INSERTED = "StorageLayoutVariableInserted";
+export const DUPLICATE_NAMESPACE_ID_IN_WORKSPACE = "DuplicateNamespaceIdInWorkspace";
+export const NAMESPACE_LOCATION_COLLISION = "NamespaceLocationCollision";
+export const PARENT_HAS_NON_NAMESPACED_VARIABLES = "ParentHasNonNamespacedVariables";
 
 function getExpectedNamespaceId(namespacePrefix: string, contractDef: ContractDefinition) {
 	return getNamespaceId(namespacePrefix, contractDef.name.text);
 }
 
+/**
+ * Parses the document with the inferred Solidity version, updates the workspace namespace index, and validates the document
+ * unless it is excluded by the settings. The severities of the diagnostics are adjusted according to the settings.
+ *
+ * @param updateIndex whether to update the workspace namespace index with the document's namespaces, if it is one of the indexed files
+ */
+export async function validateTextDocument(textDocument: TextDocument, updateIndex = true): Promise<Diagnostic[]> {
+	const diagnostics: Diagnostic[] = [];
+
+	const { language, parseOutput } = await parseTextDocument(textDocument);
+
+	if (updateIndex && await isWorkspaceSourceFile(URI.parse(textDocument.uri).fsPath, workspaceFolders)) {
+		indexDocument(parseOutput, textDocument);
+	}
+
+	const settings = await getDocumentSettings(textDocument.uri);
+	if (!await isIncludedDocument(textDocument, settings)) {
+		return diagnostics;
+	}
+	await validateNamespaces(parseOutput, language, textDocument, diagnostics);
+
+	return applySeveritySettings(removeSuppressedDiagnostics(diagnostics, parseOutput, textDocument), settings);
+}
+
 export async function validateNamespaces(parseOutput: parse_output.ParseOutput, language: Language, textDocument: TextDocument, diagnostics: Diagnostic[]) {
+	const documentNamespaces = getNamespacesInDocument(parseOutput, textDocument);
+	const settings = await getDocumentSettings(textDocument.uri);
+
 	const cursor = parseOutput.createTreeCursor();
 	while (cursor.goToNextNonterminalWithKind(NonterminalKind.ContractDefinition)) {
 		const cursorNode = cursor.node();
@@ -50,15 +98,20 @@ export async function validateNamespaces(parseOutput: parse_output.ParseOutput,
 			variables: []
 		};
 
-		const inferredUpgradeable = inferUpgradeable(cursor, contractDef);
+		const inferredUpgradeable = inferUpgradeable(cursor, contractDef, settings.upgradeableMarkers ?? []);
 		if (inferredUpgradeable) {
-			const foundSingleNamespace = await validateNamespaceStructAnnotation(cursor, textDocument, contractDef, diagnostics);
+			const upgradesFrom = await findUpgradesFromContract(cursor, language, textDocument);
+			const foundSingleNamespace = await validateNamespaceStructAnnotation(cursor, textDocument, contractDef, upgradesFrom?.referenceContract, diagnostics);
 			if (foundSingleNamespace !== undefined) {
-				await validateNamespaceCommentAndHash(foundSingleNamespace.namespaceId, cursor, textDocument, contractDef, diagnostics);
+				await validateNamespaceCommentAndHash(foundSingleNamespace.namespaceId, foundSingleNamespace.formula, cursor, textDocument, contractDef, diagnostics);
 			}
+			validateStorageLayout(cursor, upgradesFrom, textDocument, diagnostics);
+			await validateInheritedStorage(cursor, parseOutput, language, textDocument, contractDef, diagnostics);
+			validateUnsafePatterns(cursor, textDocument, contractDef, diagnostics);
 		}
-		await validateNamespaceableVariables(cursor, textDocument, diagnostics, namespaceableContract, !inferredUpgradeable);
+		await validateNamespaceableVariables(cursor, language, textDocument, diagnostics, namespaceableContract, !inferredUpgradeable);
 		validateNamespaceableContract(cursor, diagnostics, textDocument, namespaceableContract);
+		validateWorkspaceNamespaceCollisions(documentNamespaces, textDocument, contractDef, diagnostics);
 	}
 }
 
@@ -68,11 +121,12 @@ export async function validateNamespaces(parseOutput: parse_output.ParseOutput,
  * - Has an `_authorizeUpgrade(address)` function.
  * - Has the NatSpec annotation `@custom:oz-upgrades`
  * - Has the NatSpec annotation `@custom:oz-upgrades-from <reference>`
+ * - Inherits a contract or has a NatSpec tag from the `upgradeableMarkers` setting.
  */
-function inferUpgradeable(cursor: cursor.Cursor, contractDef: ContractDefinition): boolean {
-	const hasInitializable = contractDef.inheritance?.types.items.some(type => type.typeName.items.some(item => item.text === "Initializable"));
-	const hasUUPSUpgradeable = contractDef.inheritance?.types.items.some(type => type.typeName.items.some(item => item.text === "UUPSUpgradeable"));
-	if (hasInitializable || hasUUPSUpgradeable) {
+function inferUpgradeable(cursor: cursor.Cursor, contractDef: ContractDefinition, upgradeableMarkers: string[]): boolean {
+	const baseContractMarkers = ["Initializable", "UUPSUpgradeable", ...upgradeableMarkers.filter(marker => !marker.startsWith("@"))];
+	const hasBaseContractMarker = contractDef.inheritance?.types.items.some(type => type.typeName.items.some(item => baseContractMarkers.includes(item.text)));
+	if (hasBaseContractMarker) {
 		return true;
 	}
 
@@ -89,13 +143,334 @@ function inferUpgradeable(cursor: cursor.Cursor, contractDef: ContractDefinition
 	}
 
 	const natSpecTokens = getNatSpec(cursor)?.text.split(/\s+/);
-	if (natSpecTokens !== undefined && (natSpecTokens.includes("@custom:oz-upgrades") || natSpecTokens.includes("@custom:oz-upgrades-from"))) {
+	const natSpecMarkers = ["@custom:oz-upgrades", "@custom:oz-upgrades-from", ...upgradeableMarkers.filter(marker => marker.startsWith("@"))];
+	if (natSpecTokens !== undefined && natSpecTokens.some(token => natSpecMarkers.includes(token))) {
 		return true;
 	}
 	
 	return false;
 }
 
+/**
+ * Gets the options of all `@custom:oz-upgrades-unsafe-allow <option>...` annotations in the NatSpec preceding the cursor
+ */
+function getUnsafeAllowOptions(cursor: cursor.Cursor): string[] {
+	const natSpec = getNatSpec(cursor);
+	if (natSpec === undefined) {
+		return [];
+	}
+
+	const options: string[] = [];
+	for (const match of natSpec.text.matchAll(/@custom:oz-upgrades-unsafe-allow((?:[ \t]+[\w-]+)+)/g)) {
+		options.push(...match[1].trim().split(/\s+/));
+	}
+	return options;
+}
+
+/**
+ * Generates diagnostics for patterns that are unsafe in upgradeable contracts, as validated by OpenZeppelin Upgrades:
+ * - A constructor, unless annotated with `@custom:oz-upgrades-unsafe-allow constructor`
+ * - A `selfdestruct` call, unless the function is annotated with `@custom:oz-upgrades-unsafe-allow selfdestruct`
+ * - A `delegatecall`, unless the function is annotated with `@custom:oz-upgrades-unsafe-allow delegatecall`
+ * - An immutable variable, unless annotated with `@custom:oz-upgrades-unsafe-allow state-variable-immutable`
+ *
+ * Any of these annotations can also be placed on the contract to allow the pattern throughout the contract.
+ *
+ * Also recommends calling `_disableInitializers()` in the constructor of non-abstract contracts that have one, so that the
+ * implementation contract cannot be initialized directly.
+ */
+function validateUnsafePatterns(cursor: cursor.Cursor, textDocument: TextDocument, contractDef: ContractDefinition, diagnostics: Diagnostic[]) {
+	const contractAllowOptions = getUnsafeAllowOptions(cursor);
+	let constructorWithoutDisableInitializers: cursor.Cursor | undefined = undefined;
+
+	const memberCursor = cursor.spawn();
+	while (memberCursor.goToNextNonterminalWithKinds([
+		NonterminalKind.ConstructorDefinition,
+		NonterminalKind.FunctionDefinition,
+		NonterminalKind.ModifierDefinition,
+		NonterminalKind.FallbackFunctionDefinition,
+		NonterminalKind.ReceiveFunctionDefinition,
+		NonterminalKind.StateVariableDefinition,
+	])) {
+		const memberNode = memberCursor.node();
+		assert(memberNode instanceof NonterminalNode);
+		const allowOptions = [...contractAllowOptions, ...getUnsafeAllowOptions(memberCursor)];
+
+		if (memberNode.kind === NonterminalKind.StateVariableDefinition) {
+			const stateVar = new StateVariableDefinition(memberNode);
+			const isImmutable = stateVar.attributes.items.some(attribute => attribute.variant instanceof TerminalNode && attribute.variant.kind === TerminalKind.ImmutableKeyword);
+			if (isImmutable && !allowOptions.includes("state-variable-immutable")) {
+				addDiagnostic(
+					diagnostics,
+					textDocument,
+					slangToVSCodeRange(textDocument, getTrimmedRange(memberCursor)),
+					`Immutable variable in upgradeable contract`,
+					"Immutable variables are stored in the bytecode of the implementation and are not shared with the proxy. If this is intended, annotate the variable with `@custom:oz-upgrades-unsafe-allow state-variable-immutable`.",
+					DiagnosticSeverity.Warning,
+					UNSAFE_STATE_VARIABLE_IMMUTABLE,
+					undefined
+				);
+			}
+			continue;
+		}
+
+		if (memberNode.kind === NonterminalKind.ConstructorDefinition) {
+			const constructorKeywordCursor = memberCursor.spawn();
+			constructorKeywordCursor.goToNextTerminalWithKind(TerminalKind.ConstructorKeyword);
+
+			if (!allowOptions.includes("constructor")) {
+				addDiagnostic(
+					diagnostics,
+					textDocument,
+					slangToVSCodeRange(textDocument, constructorKeywordCursor.textRange),
+					`Constructor in upgradeable contract`,
+					"Constructors are not run in the context of the proxy. Use an initializer function instead, or annotate the constructor with `@custom:oz-upgrades-unsafe-allow constructor`.",
+					DiagnosticSeverity.Warning,
+					UNSAFE_CONSTRUCTOR,
+					{ contractName: contractDef.name.text }
+				);
+			}
+
+			if (!memberNode.unparse().match(/\b_disableInitializers\s*\(/)) {
+				constructorWithoutDisableInitializers = constructorKeywordCursor;
+			}
+		}
+
+		const terminalCursor = memberCursor.spawn();
+		while (terminalCursor.goToNextTerminalWithKinds([TerminalKind.Identifier, TerminalKind.YulSelfDestructKeyword, TerminalKind.YulSuicideKeyword, TerminalKind.YulDelegateCallKeyword])) {
+			const terminalNode = terminalCursor.node();
+			assert(terminalNode instanceof TerminalNode);
+
+			if (terminalNode.text === "selfdestruct" || terminalNode.text === "suicide") {
+				if (!allowOptions.includes("selfdestruct")) {
+					addDiagnostic(
+						diagnostics,
+						textDocument,
+						slangToVSCodeRange(textDocument, terminalCursor.textRange),
+						`Use of selfdestruct in upgradeable contract`,
+						"If the implementation contract is destroyed, the proxy can no longer be used. If this is intended, annotate the function with `@custom:oz-upgrades-unsafe-allow selfdestruct`.",
+						DiagnosticSeverity.Warning,
+						UNSAFE_SELFDESTRUCT,
+						undefined
+					);
+				}
+			} else if (terminalNode.text === "delegatecall") {
+				if (!allowOptions.includes("delegatecall")) {
+					addDiagnostic(
+						diagnostics,
+						textDocument,
+						slangToVSCodeRange(textDocument, terminalCursor.textRange),
+						`Use of delegatecall in upgradeable contract`,
+						"A delegatecall to a contract that executes selfdestruct can destroy the implementation contract. If this is intended, annotate the function with `@custom:oz-upgrades-unsafe-allow delegatecall`.",
+						DiagnosticSeverity.Warning,
+						UNSAFE_DELEGATECALL,
+						undefined
+					);
+				}
+			}
+		}
+	}
+
+	if (contractDef.abstractKeyword === undefined && constructorWithoutDisableInitializers !== undefined) {
+		addDiagnostic(
+			diagnostics,
+			textDocument,
+			slangToVSCodeRange(textDocument, constructorWithoutDisableInitializers.textRange),
+			`Constructor does not call _disableInitializers()`,
+			"Call `_disableInitializers()` in a constructor annotated with `@custom:oz-upgrades-unsafe-allow constructor` to prevent the implementation contract from being initialized.",
+			DiagnosticSeverity.Information,
+			MISSING_DISABLE_INITIALIZERS,
+			undefined
+		);
+	}
+}
+
+/**
+ * Generates a diagnostic for each contract in the linearized inheritance hierarchy that still has state variables
+ * in linear storage, on the direct base contract through which it is inherited. Base contracts are resolved from the
+ * document's imports.
+ */
+async function validateInheritedStorage(cursor: cursor.Cursor, parseOutput: parse_output.ParseOutput, language: Language, textDocument: TextDocument, contractDef: ContractDefinition, diagnostics: Diagnostic[]) {
+	const directBases: { name: string, range: Range }[] = [];
+	const inheritanceCursor = cursor.spawn();
+	while (inheritanceCursor.goToNextNonterminalWithKind(NonterminalKind.InheritanceType)) {
+		const inheritanceTypeNode = inheritanceCursor.node();
+		assert(inheritanceTypeNode instanceof NonterminalNode);
+		const typeName = new InheritanceType(inheritanceTypeNode).typeName;
+		directBases.push({
+			name: typeName.items[typeName.items.length - 1].text,
+			range: slangToVSCodeRange(textDocument, getTrimmedRange(inheritanceCursor)),
+		});
+	}
+	if (directBases.length === 0) {
+		return;
+	}
+
+	const sourceUnits = await getImportedSourceUnits(parseOutput, textDocument, language, workspaceFolders);
+	const linearization = getLinearizedContracts(cursor, textDocument, sourceUnits);
+	if (linearization === undefined) {
+		console.log("Could not linearize inheritance hierarchy of contract: " + contractDef.name.text);
+		return;
+	}
+
+	const contractsByName: Map<string, LinearizedContract> = new Map(linearization.map(contract => [contract.name, contract]));
+	const inheritsFrom = (contractName: string, ancestorName: string): boolean => {
+		const contract = contractsByName.get(contractName);
+		return contractName === ancestorName || (contract !== undefined && contract.bases.some(base => inheritsFrom(base, ancestorName)));
+	};
+
+	for (const ancestor of linearization.slice(1)) {
+		const variables = getStorageLayout(ancestor.cursor, ancestor.textDocument).variables;
+		if (variables.length === 0) {
+			continue;
+		}
+
+		const directBase = directBases.find(base => inheritsFrom(base.name, ancestor.name));
+		if (directBase === undefined) {
+			continue;
+		}
+
+		const via = ancestor.name === directBase.name ? '' : `, which is inherited through \`${directBase.name}\``;
+		addDiagnostic(
+			diagnostics,
+			textDocument,
+			directBase.range,
+			`Parent contract uses non-namespaced storage`,
+			`Contract \`${ancestor.name}\` has state variables that are not namespaced: ${variables.map(variable => `\`${variable.name}\``).join(', ')}${via}`,
+			DiagnosticSeverity.Warning,
+			PARENT_HAS_NON_NAMESPACED_VARIABLES,
+			undefined
+		);
+	}
+}
+
+type UpgradesFrom = {
+	reference: string;
+	/**
+	 * The reference contract, if it was found
+	 */
+	referenceContract?: ReferenceContract;
+}
+
+/**
+ * Finds the contract referenced by the contract's `@custom:oz-upgrades-from <reference>` annotation, if it has one.
+ */
+async function findUpgradesFromContract(cursor: cursor.Cursor, language: Language, textDocument: TextDocument): Promise<UpgradesFrom | undefined> {
+	const reference = getUpgradesFromReference(cursor);
+	if (reference === undefined) {
+		return undefined;
+	}
+	return { reference, referenceContract: await findReferenceContract(reference, textDocument, language) };
+}
+
+/**
+ * Compares the storage layout of the contract with the layout of the reference contract from its
+ * `@custom:oz-upgrades-from <reference>` annotation, and generates a diagnostic for each state variable or
+ * namespace struct member that was deleted, reordered, changed type, or inserted before existing ones.
+ */
+function validateStorageLayout(cursor: cursor.Cursor, upgradesFrom: UpgradesFrom | undefined, textDocument: TextDocument, diagnostics: Diagnostic[]) {
+	if (upgradesFrom === undefined) {
+		return;
+	}
+	const { reference, referenceContract } = upgradesFrom;
+
+	if (referenceContract === undefined) {
+		addDiagnostic(
+			diagnostics,
+			textDocument,
+			slangToVSCodeRange(textDocument, getNatSpec(cursor)!.textRange),
+			`Reference contract not found`,
+			`Could not find contract \`${reference}\` in the workspace to validate the storage layout against`,
+			DiagnosticSeverity.Warning,
+			REFERENCE_CONTRACT_NOT_FOUND,
+			undefined
+		);
+		return;
+	}
+
+	const contractNameCursor = cursor.spawn();
+	contractNameCursor.goToNextTerminalWithKind(TerminalKind.Identifier);
+	const contractNameRange = slangToVSCodeRange(textDocument, contractNameCursor.textRange);
+
+	const layout = getStorageLayout(cursor, textDocument);
+	addStorageLayoutDiagnostics(compareStorageLayouts(referenceContract.layout.variables, layout.variables), reference, undefined, contractNameRange, textDocument, diagnostics);
+
+	for (const originalNamespace of referenceContract.layout.namespaces) {
+		const namespace = layout.namespaces.find(namespace => namespace.namespaceId === originalNamespace.namespaceId);
+		if (namespace === undefined) {
+			addDiagnostic(
+				diagnostics,
+				textDocument,
+				contractNameRange,
+				`Deleted namespace \`${originalNamespace.namespaceId}\``,
+				`Namespace \`${originalNamespace.namespaceId}\` exists in \`${reference}\`. Deleting a namespace loses access to the data stored in it.`,
+				DiagnosticSeverity.Error,
+				STORAGE_LAYOUT_VARIABLE_DELETED,
+				undefined
+			);
+		} else {
+			addStorageLayoutDiagnostics(compareStorageLayouts(originalNamespace.members, namespace.members), reference, originalNamespace.namespaceId, namespace.range, textDocument, diagnostics);
+		}
+	}
+}
+
+function addStorageLayoutDiagnostics(changes: StorageLayoutChange[], reference: string, namespaceId: string | undefined, deletedRange: Range, textDocument: TextDocument, diagnostics: Diagnostic[]) {
+	const location = namespaceId !== undefined ? ` in namespace \`${namespaceId}\`` : '';
+
+	for (const change of changes) {
+		switch (change.kind) {
+			case 'deleted':
+				addDiagnostic(
+					diagnostics,
+					textDocument,
+					deletedRange,
+					`Deleted \`${change.original!.name}\`${location}`,
+					`\`${change.original!.name}\` exists in \`${reference}\`. Deleting it shifts the storage of the variables that follow it.`,
+					DiagnosticSeverity.Error,
+					STORAGE_LAYOUT_VARIABLE_DELETED,
+					undefined
+				);
+				break;
+			case 'reordered':
+				addDiagnostic(
+					diagnostics,
+					textDocument,
+					change.updated!.range,
+					`Reordered \`${change.updated!.name}\`${location}`,
+					`The position of \`${change.updated!.name}\` differs from \`${reference}\`. Reordering variables changes the storage they use.`,
+					DiagnosticSeverity.Error,
+					STORAGE_LAYOUT_VARIABLE_REORDERED,
+					undefined
+				);
+				break;
+			case 'typechange':
+				addDiagnostic(
+					diagnostics,
+					textDocument,
+					change.updated!.range,
+					`Type of \`${change.updated!.name}\` changed from \`${change.original!.typeName}\` to \`${change.updated!.typeName}\`${location}`,
+					`The type of \`${change.updated!.name}\` in \`${reference}\` is \`${change.original!.typeName}\`. Changing it may corrupt its stored value.`,
+					DiagnosticSeverity.Error,
+					STORAGE_LAYOUT_VARIABLE_TYPE_CHANGED,
+					undefined
+				);
+				break;
+			case 'inserted':
+				addDiagnostic(
+					diagnostics,
+					textDocument,
+					change.updated!.range,
+					`Inserted \`${change.updated!.name}\`${location}`,
+					`\`${change.updated!.name}\` does not exist in \`${reference}\`. New variables must be added after all existing ones.`,
+					DiagnosticSeverity.Error,
+					STORAGE_LAYOUT_VARIABLE_INSERTED,
+					undefined
+				);
+				break;
+		}
+	}
+}
+
 function validateNamespaceableContract(cursor: cursor.Cursor, diagnostics: Diagnostic[], textDocument: TextDocument, namespaceableContract: NamespaceableContract) {
 	if (namespaceableContract.variables.length > 0) {
 		const contractChildCursor = cursor.spawn();
@@ -117,7 +492,7 @@ function validateNamespaceableContract(cursor: cursor.Cursor, diagnostics: Diagn
 	}
 }
 
-async function validateNamespaceableVariables(cursor: cursor.Cursor, textDocument: TextDocument, diagnostics: Diagnostic[], namespaceableContract: NamespaceableContract, skipDiagnostic: boolean) {
+async function validateNamespaceableVariables(cursor: cursor.Cursor, language: Language, textDocument: TextDocument, diagnostics: Diagnostic[], namespaceableContract: NamespaceableContract, skipDiagnostic: boolean) {
 	const childCursor = cursor.spawn();
 	while (childCursor.goToNextNonterminalWithKind(NonterminalKind.StateVariableDefinition)) {
 		const cursorNode = childCursor.node();
@@ -128,7 +503,6 @@ async function validateNamespaceableVariables(cursor: cursor.Cursor, textDocumen
 
 		// ignore immutable or constant variables
 		let ignoreVariable = false;
-		const language = new Language(await inferSolidityVersion(textDocument, workspaceFolders));
 		const parseVar = language.parse(NonterminalKind.StateVariableDefinition, variableText);
 		const stateVar = new StateVariableDefinition(parseVar.tree() as NonterminalNode);
 		const attributes = stateVar.attributes.items;
@@ -168,6 +542,10 @@ async function validateNamespaceableVariables(cursor: cursor.Cursor, textDocumen
 					undefined
 				);
 			}
+
+			// the initial value is moved into an initializer when the variable is moved to the namespace
+			const declaration = `${stateVar.typeName.cst.unparse()} ${stateVar.name.text};`;
+			namespaceableContract.variables.push({ content: declaration, name: stateVar.name.text, range: slangToVSCodeRange(textDocument, trimmedRange), publicGetter: getter, initialValue: stateVar.value.value.cst.unparse().trim() });
 		} else {
 			if (!skipDiagnostic) {
 				addDiagnostic(
@@ -187,24 +565,24 @@ async function validateNamespaceableVariables(cursor: cursor.Cursor, textDocumen
 	}
 }
 
-async function validateNamespaceCommentAndHash(expectedNamespaceId: string, cursor: cursor.Cursor, textDocument: TextDocument, contractDef: ContractDefinition, diagnostics: Diagnostic[]) {
+async function validateNamespaceCommentAndHash(expectedNamespaceId: string, formula: NamespaceFormula, cursor: cursor.Cursor, textDocument: TextDocument, contractDef: ContractDefinition, diagnostics: Diagnostic[]) {
 	const spawnedCursor = cursor.spawn();
 	while (spawnedCursor.goToNextNonterminalWithKind(NonterminalKind.StateVariableDefinition)) {
-		const comment = getLastPrecedingTriviaWithKinds(spawnedCursor, [TerminalKind.SingleLineComment, TerminalKind.MultiLineComment]);
+		const comment = getLastPrecedingCommentBlock(spawnedCursor);
 		let expectedHashFromComment = undefined;
 		let commentHasUnexpectedNamespace = false;
 
 		if (comment !== undefined) {
 			// check if comment looks like a representation of the namespace hash calculation, and capture its namespace id
-			const regex = /keccak256\(abi\.encode\(uint256\(keccak256\("(.*)"\)\) *- *1\)\) *& *~bytes32\(uint256\(0xff\)\)/;
-			const match = comment.text.match(regex);
+			const match = findNamespaceIdInHashComment(comment.text, formula);
 
-			if (match) {
+			if (match !== undefined) {
 				// namespace id in comment does not match expected namespace id
-				assert(match[1] !== undefined);
-				if (match[1] !== expectedNamespaceId) {
+				if (match.namespaceId !== expectedNamespaceId) {
 					commentHasUnexpectedNamespace = true;
 
+					// replace only the namespace id within the quotes, keeping the rest of the comment
+					const idOffset = comment.textRange.start.utf16 + match.offset;
 					addDiagnostic(
 						diagnostics,
 						textDocument,
@@ -213,11 +591,14 @@ async function validateNamespaceCommentAndHash(expectedNamespaceId: string, curs
 						`Expected namespace id \`${expectedNamespaceId}\``,
 						DiagnosticSeverity.Warning,
 						NAMESPACE_ID_MISMATCH_HASH_COMMENT,
-						{ replacement: `// keccak256(abi.encode(uint256(keccak256("${expectedNamespaceId}")) - 1)) & ~bytes32(uint256(0xff))` } // TODO use comment or multiline commend depending on original kind. keep any other comment text that was there
+						{
+							replacement: expectedNamespaceId,
+							range: { start: textDocument.positionAt(idOffset), end: textDocument.positionAt(idOffset + match.namespaceId.length) }
+						}
 					);
 				}
 
-				expectedHashFromComment = calculateERC7201StorageLocation(match[1]);
+				expectedHashFromComment = formula.calculateLocation(match.namespaceId);
 			}
 		}
 
@@ -231,14 +612,14 @@ async function validateNamespaceCommentAndHash(expectedNamespaceId: string, curs
 			if (constantNode instanceof NonterminalNode) {
 				const text = constantNode.unparse();
 
-				const expectedHashFromNamespace = calculateERC7201StorageLocation(expectedNamespaceId);
+				const expectedHashFromNamespace = formula.calculateLocation(expectedNamespaceId);
 
 				if (expectedHashFromComment !== undefined && !text.includes(expectedHashFromComment)) {
 					addDiagnostic(
 						diagnostics,
 						textDocument,
 						slangToVSCodeRange(textDocument, getTrimmedRange(spawnedCursor)),
-						`ERC7201 storage location hash does not match comment`,
+						`${formula.label} storage location hash does not match comment`,
 						`Hash does not match formula in comment`,
 						DiagnosticSeverity.Warning,
 						NAMESPACE_HASH_MISMATCH,
@@ -251,7 +632,7 @@ async function validateNamespaceCommentAndHash(expectedNamespaceId: string, curs
 						diagnostics,
 						textDocument,
 						slangToVSCodeRange(textDocument, getTrimmedRange(spawnedCursor)),
-						`ERC7201 storage location hash does not match expected namespace id`,
+						`${formula.label} storage location hash does not match expected namespace id`,
 						`Expected hash to be based on \`${expectedNamespaceId}\``,
 						DiagnosticSeverity.Warning,
 						NAMESPACE_STANDALONE_HASH_MISMATCH,
@@ -266,18 +647,20 @@ async function validateNamespaceCommentAndHash(expectedNamespaceId: string, curs
 
 interface NamespaceIdAndRange {
 	namespaceId: string;
+	formula: NamespaceFormula;
 	textRange: text_index.TextRange;
 }
 
 /**
  * Generates a diagnostic if any of the following occur:
- * - A struct's namespace id does not match the expected namespace id for the contract
+ * - A struct's namespace id does not match the expected namespace id for the contract, unless the reference contract
+ *   from `@custom:oz-upgrades-from` has a namespace with that id, since an upgrade must keep the namespaces of the reference
  * - Multiple namespaces are defined in the same contract
  * - Multiple namespaces have the same id
  * 
  * @returns The namespace used in the struct annotation, if exactly one was found. Otherwise, undefined.
  */
-async function validateNamespaceStructAnnotation(cursor: cursor.Cursor, textDocument: TextDocument, contractDef: ContractDefinition, diagnostics: Diagnostic[]): Promise<NamespaceIdAndRange | undefined> {
+async function validateNamespaceStructAnnotation(cursor: cursor.Cursor, textDocument: TextDocument, contractDef: ContractDefinition, referenceContract: ReferenceContract | undefined, diagnostics: Diagnostic[]): Promise<NamespaceIdAndRange | undefined> {
 	const foundNamespaceIds: NamespaceIdAndRange[] = [];
 
 	const structCursor = cursor.spawn();
@@ -287,26 +670,22 @@ async function validateNamespaceStructAnnotation(cursor: cursor.Cursor, textDocu
 
 		const natSpec = getNatSpec(structCursor);
 		if (natSpec !== undefined) {
-			let regex: RegExp;
-			assert(natSpec.kind === TerminalKind.SingleLineNatSpecComment || natSpec.kind === TerminalKind.MultiLineNatSpecComment);
-
-			if (natSpec.kind === TerminalKind.SingleLineNatSpecComment) {
-				regex = /@custom:storage-location erc7201:(\S+)/;
-			} else {
-				regex = /@custom:storage-location erc7201:(\S+)(?=\s|\*\/)/;
-			}
-
-			const match = natSpec.text.match(regex);
-			if (match && match[1] !== undefined) {
-				console.log("Found erc7201 storage location annotation with id: " + match[1]);
+			const namespaceIdInNatSpec = findNamespaceIdInNatSpec(natSpec);
+			if (namespaceIdInNatSpec !== undefined) {
+				const namespaceId = namespaceIdInNatSpec.namespaceId;
+				console.log(`Found ${namespaceIdInNatSpec.formula.name} storage location annotation with id: ${namespaceId}`);
 				foundNamespaceIds.push({
-					namespaceId: match[1],
+					namespaceId: namespaceId,
+					formula: namespaceIdInNatSpec.formula,
 					textRange: natSpec.textRange,
 				});
 
 				let namespacePrefix = await getNamespacePrefix(textDocument);
 				const expectedNamespaceId = getExpectedNamespaceId(namespacePrefix, contractDef);
-				if (match[1] !== expectedNamespaceId) {
+				const isReferenceNamespace = referenceContract?.layout.namespaces.some(namespace => namespace.namespaceId === namespaceId) ?? false;
+				if (namespaceId !== expectedNamespaceId && !isReferenceNamespace) {
+					// replace only the namespace id, keeping the NatSpec style and any other tags
+					const idOffset = natSpec.textRange.start.utf16 + namespaceIdInNatSpec.offset;
 					addDiagnostic(
 						diagnostics,
 						textDocument,
@@ -315,7 +694,10 @@ async function validateNamespaceStructAnnotation(cursor: cursor.Cursor, textDocu
 						`Namepace id does not match prefix \`${namespacePrefix}\` and contract name \`${contractDef.name.text}\``,
 						DiagnosticSeverity.Information,
 						NAMESPACE_ID_MISMATCH,
-						{ replacement: `/// @custom:storage-location erc7201:${expectedNamespaceId}` } // TODO use the same kind of NatSpec (single line or multiline) as the original, and keep any other text that was there
+						{
+							replacement: expectedNamespaceId,
+							range: { start: textDocument.positionAt(idOffset), end: textDocument.positionAt(idOffset + namespaceId.length) }
+						}
 					);
 				}
 			}
@@ -357,3 +739,40 @@ async function validateNamespaceStructAnnotation(cursor: cursor.Cursor, textDocu
 
 	return foundNamespaceIds.length === 1 ? foundNamespaceIds[0] : undefined;
 }
+
+/**
+ * Generates diagnostics if a namespace of the contract has the same id as a namespace of another contract
+ * in the workspace, or if their ids are different but their computed storage locations collide.
+ */
+function validateWorkspaceNamespaceCollisions(documentNamespaces: IndexedNamespace[], textDocument: TextDocument, contractDef: ContractDefinition, diagnostics: Diagnostic[]) {
+	for (const namespace of documentNamespaces.filter(namespace => namespace.contractName === contractDef.name.text)) {
+		const collisions = findNamespaceCollisions(namespace, documentNamespaces);
+
+		for (const other of collisions) {
+			const otherPath = getWorkspaceRelativePath(URI.parse(other.uri).fsPath, workspaceFolders);
+			if (other.namespaceId === namespace.namespaceId) {
+				addDiagnostic(
+					diagnostics,
+					textDocument,
+					namespace.range,
+					`Duplicate namespace id in workspace`,
+					`Namespace id \`${namespace.namespaceId}\` is also used by contract \`${other.contractName}\` in \`${otherPath}\``,
+					DiagnosticSeverity.Error,
+					DUPLICATE_NAMESPACE_ID_IN_WORKSPACE,
+					undefined
+				);
+			} else {
+				addDiagnostic(
+					diagnostics,
+					textDocument,
+					namespace.range,
+					`Namespace storage location collision`,
+					`Namespace id \`${namespace.namespaceId}\` has the same storage location as namespace id \`${other.namespaceId}\` of contract \`${other.contractName}\` in \`${otherPath}\``,
+					DiagnosticSeverity.Error,
+					NAMESPACE_LOCATION_COLLISION,
+					undefined
+				);
+			}
+		}
+	}
+}
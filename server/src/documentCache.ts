@@ -0,0 +1,53 @@
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { NonterminalKind } from '@nomicfoundation/slang/kinds';
+import { parse_output } from '@nomicfoundation/slang';
+import { Language } from '@nomicfoundation/slang/language';
+import { workspaceFolders } from './environment';
+import { getLanguage, inferSolidityVersion } from './solidityVersion';
+
+export type ParsedTextDocument = {
+	language: Language;
+	parseOutput: parse_output.ParseOutput;
+}
+
+type CachedDocument = ParsedTextDocument & {
+	version: number;
+	text: string;
+}
+
+const documentCache: Map<string, CachedDocument> = new Map();
+
+/**
+ * Parses a document with its inferred Solidity version.
+ * The result is cached by uri until the document's version or content changes, or until the cache is cleared.
+ */
+export async function parseTextDocument(textDocument: TextDocument): Promise<ParsedTextDocument> {
+	const text = textDocument.getText();
+
+	// the content is also compared, since documents that are fixed in memory reuse the uri with their own versions
+	const cached = documentCache.get(textDocument.uri);
+	if (cached !== undefined && cached.version === textDocument.version && cached.text === text) {
+		return cached;
+	}
+
+	const language = getLanguage(await inferSolidityVersion(textDocument, workspaceFolders));
+	const parsed: CachedDocument = {
+		version: textDocument.version,
+		text,
+		language,
+		parseOutput: language.parse(NonterminalKind.SourceUnit, text),
+	};
+	documentCache.set(textDocument.uri, parsed);
+	return parsed;
+}
+
+export function removeFromDocumentCache(uri: string) {
+	documentCache.delete(uri);
+}
+
+/**
+ * Clears all cached documents, such as when the settings or config files that the Solidity version is inferred from change.
+ */
+export function clearDocumentCache() {
+	documentCache.clear();
+}
@@ -0,0 +1,86 @@
+import { Diagnostic, DiagnosticSeverity, FormattingOptions, LSPAny } from 'vscode-languageserver/node';
+import { Range, TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+import { mergeSettings, OpenZeppelinLSSettings } from './settings';
+import { getProject } from './workspace';
+
+/**
+ * State shared by the validation logic, set up by either the language server or the command line interface.
+ */
+
+export const workspaceFolders: string[] = [];
+
+export const defaultSettings: OpenZeppelinLSSettings = { solidityVersion: "", namespacePrefix: "", namespaceFormula: "", diagnostics: {}, include: [], exclude: [], upgradeableMarkers: [] };
+
+let settingsProvider: (resource: string) => Thenable<OpenZeppelinLSSettings> = () => Promise.resolve(defaultSettings);
+
+let settingsOverrides: OpenZeppelinLSSettings = {};
+
+let formattingOptionsProvider: (resource: string) => Thenable<FormattingOptions | undefined> = () => Promise.resolve(undefined);
+
+let hasDiagnosticRelatedInformationCapability = false;
+
+/**
+ * Sets the function that provides the settings for a document uri.
+ */
+export function setSettingsProvider(provider: (resource: string) => Thenable<OpenZeppelinLSSettings>) {
+	settingsProvider = provider;
+}
+
+/**
+ * Sets the settings that take precedence over both the provided settings and the project settings, such as command line options.
+ */
+export function setSettingsOverrides(overrides: OpenZeppelinLSSettings) {
+	settingsOverrides = overrides;
+}
+
+/**
+ * Sets the function that provides the editor's formatting options for a document uri, if the editor does not detect them from the document.
+ */
+export function setFormattingOptionsProvider(provider: (resource: string) => Thenable<FormattingOptions | undefined>) {
+	formattingOptionsProvider = provider;
+}
+
+/**
+ * Sets whether diagnostics include related information with the details of each diagnostic.
+ */
+export function setDiagnosticRelatedInformationCapability(value: boolean) {
+	hasDiagnosticRelatedInformationCapability = value;
+}
+
+/**
+ * Gets the settings for a document uri, merged with the settings in the `.openzeppelin-ls.json` of the document's project
+ * and the settings overrides.
+ */
+export async function getDocumentSettings(resource: string): Promise<OpenZeppelinLSSettings> {
+	const settings = await settingsProvider(resource);
+	const project = await getProject(URI.parse(resource).fsPath, workspaceFolders);
+	return mergeSettings(settingsOverrides, project?.settings !== undefined ? mergeSettings(project.settings, settings) : settings);
+}
+
+export function getFormattingOptions(resource: string): Thenable<FormattingOptions | undefined> {
+	return formattingOptionsProvider(resource);
+}
+
+export function addDiagnostic(diagnostics: Diagnostic[], textDocument: TextDocument, range: Range, message: string, details: string, severity: DiagnosticSeverity, code: string, data: LSPAny) {
+	let diagnostic: Diagnostic = {
+		severity: severity,
+		range: range,
+		message: message,
+		source: "OpenZeppelin Language Server",
+		code: code,
+		data: data,
+	};
+	if (hasDiagnosticRelatedInformationCapability) {
+		diagnostic.relatedInformation = [
+			{
+				location: {
+					uri: textDocument.uri,
+					range: Object.assign({}, diagnostic.range)
+				},
+				message: details
+			}
+		];
+	}
+	diagnostics.push(diagnostic);
+}
@@ -0,0 +1,153 @@
+import { CodeAction, CodeActionKind, Diagnostic } from 'vscode-languageserver/node';
+import { TextDocument, TextEdit } from 'vscode-languageserver-textdocument';
+import { getCodeActions } from './codeactions';
+import { CONTRACT_CAN_BE_NAMESPACED, NAMESPACE_HASH_MISMATCH, NAMESPACE_ID_MISMATCH, NAMESPACE_ID_MISMATCH_HASH_COMMENT, NAMESPACE_STANDALONE_HASH_MISMATCH, validateTextDocument } from './diagnostics';
+import { parseTextDocument } from './documentCache';
+import { findContractDefinition } from './helpers/slang';
+import { getUpgradesFromReference } from './layout';
+import { NamespaceableContract } from './namespace';
+
+export const FIX_ALL_CODE_ACTION_KIND = `${CodeActionKind.SourceFixAll}.openzeppelin`;
+
+/**
+ * Diagnostics whose quick fixes only replace namespace ids, comments or hashes, and can be applied without review.
+ */
+export const SAFE_FIX_CODES = [NAMESPACE_ID_MISMATCH, NAMESPACE_ID_MISMATCH_HASH_COMMENT, NAMESPACE_HASH_MISMATCH, NAMESPACE_STANDALONE_HASH_MISMATCH];
+
+/**
+ * Diagnostics whose quick fixes move state variables, which changes the storage layout of the contract.
+ */
+const LAYOUT_CHANGING_FIX_CODES = [CONTRACT_CAN_BE_NAMESPACED];
+
+/**
+ * The maximum number of times that a document is validated and fixed, since fixes can reveal new diagnostics.
+ */
+const MAX_FIX_PASSES = 10;
+
+export type FixResult = {
+	textDocument: TextDocument;
+	/**
+	 * The titles of the quick fixes that were applied
+	 */
+	appliedFixes: string[];
+	/**
+	 * The diagnostics that remain after applying the fixes
+	 */
+	diagnostics: Diagnostic[];
+}
+
+/**
+ * Repeatedly validates a document and applies all of its quick fixes whose edits do not overlap,
+ * until there are no more fixes to apply. The workspace namespace index is not updated with the intermediate content.
+ *
+ * Quick fixes that change the storage layout are never applied to contracts with a `@custom:oz-upgrades-from` reference,
+ * since their layout must stay compatible with the reference contract.
+ *
+ * @param codes only the quick fixes for diagnostics with these codes are applied
+ * @returns The fixed document, which is a new document if any fixes were applied
+ */
+export async function fixTextDocument(textDocument: TextDocument, codes: string[]): Promise<FixResult> {
+	const appliedFixes: string[] = [];
+	const seenTexts = new Set([textDocument.getText()]);
+
+	let current = textDocument;
+	let diagnostics = await validateTextDocument(current, false);
+	for (let pass = 0; pass < MAX_FIX_PASSES; pass++) {
+		const fixableDiagnostics: Diagnostic[] = [];
+		for (const diagnostic of diagnostics) {
+			if (codes.includes(String(diagnostic.code)) && !await changesReferencedLayout(diagnostic, current)) {
+				fixableDiagnostics.push(diagnostic);
+			}
+		}
+		const codeActions = await getCodeActions(fixableDiagnostics, current);
+		const { edits, titles } = getNonOverlappingEdits(codeActions, current);
+		if (edits.length === 0) {
+			break;
+		}
+
+		const text = TextDocument.applyEdits(current, edits);
+		if (seenTexts.has(text)) {
+			// the fixes do not resolve their diagnostics
+			break;
+		}
+		seenTexts.add(text);
+		appliedFixes.push(...titles);
+
+		current = TextDocument.create(current.uri, current.languageId, current.version + 1, text);
+		diagnostics = await validateTextDocument(current, false);
+	}
+
+	return { textDocument: current, appliedFixes, diagnostics };
+}
+
+/**
+ * Gets a code action that applies all safe fixes in the document, such as replacing namespace ids, comments and hashes.
+ *
+ * @returns The code action, or undefined if there is nothing to fix
+ */
+export async function getFixAllCodeAction(title: string, textDocument: TextDocument): Promise<CodeAction | undefined> {
+	const fixResult = await fixTextDocument(textDocument, SAFE_FIX_CODES);
+	if (fixResult.appliedFixes.length === 0) {
+		return undefined;
+	}
+
+	// replace only the changed part of the document, so that the editor keeps the cursor position and folding
+	const text = textDocument.getText();
+	const fixedText = fixResult.textDocument.getText();
+	let start = 0;
+	while (start < text.length && start < fixedText.length && text[start] === fixedText[start]) {
+		start++;
+	}
+	let end = 0;
+	while (end < text.length - start && end < fixedText.length - start && text[text.length - 1 - end] === fixedText[fixedText.length - 1 - end]) {
+		end++;
+	}
+
+	const edit: TextEdit = {
+		range: { start: textDocument.positionAt(start), end: textDocument.positionAt(text.length - end) },
+		newText: fixedText.substring(start, fixedText.length - end),
+	};
+	return {
+		title: title,
+		kind: FIX_ALL_CODE_ACTION_KIND,
+		edit: { changes: { [textDocument.uri]: [edit] } },
+	};
+}
+
+/**
+ * Whether the quick fix for the diagnostic changes the storage layout of a contract with a `@custom:oz-upgrades-from` reference.
+ */
+async function changesReferencedLayout(diagnostic: Diagnostic, textDocument: TextDocument): Promise<boolean> {
+	if (!LAYOUT_CHANGING_FIX_CODES.includes(String(diagnostic.code))) {
+		return false;
+	}
+	const { parseOutput } = await parseTextDocument(textDocument);
+	const contractCursor = findContractDefinition(parseOutput, (diagnostic.data as NamespaceableContract).name);
+	return contractCursor !== undefined && getUpgradesFromReference(contractCursor) !== undefined;
+}
+
+/**
+ * Gets the edits of the code actions for the document, skipping code actions with edits that overlap with those of a previous code action.
+ */
+function getNonOverlappingEdits(codeActions: CodeAction[], textDocument: TextDocument): { edits: TextEdit[], titles: string[] } {
+	const edits: TextEdit[] = [];
+	const titles: string[] = [];
+	const usedOffsets: [number, number][] = [];
+
+	for (const codeAction of codeActions) {
+		const actionEdits = codeAction.edit?.changes?.[textDocument.uri];
+		if (actionEdits === undefined || actionEdits.length === 0) {
+			continue;
+		}
+
+		const actionOffsets: [number, number][] = actionEdits.map(edit => [textDocument.offsetAt(edit.range.start), textDocument.offsetAt(edit.range.end)]);
+		const overlaps = actionOffsets.some(([start, end]) => usedOffsets.some(([usedStart, usedEnd]) => start <= usedEnd && usedStart <= end));
+		if (!overlaps) {
+			edits.push(...actionEdits);
+			titles.push(codeAction.title);
+			usedOffsets.push(...actionOffsets);
+		}
+	}
+
+	return { edits, titles };
+}
@@ -0,0 +1,94 @@
+import { FormattingOptions, WorkspaceEdit } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { getFormattingOptions } from './environment';
+
+export const DEFAULT_INDENT = "    ";
+
+export type Formatting = {
+	/**
+	 * The string used for one level of indentation, such as a tab or four spaces
+	 */
+	indent: string;
+	eol: string;
+}
+
+/**
+ * Infers the formatting for code generated in a document. The indentation is taken from the editor's formatting
+ * options if the client provides them, otherwise it is detected from the document, defaulting to four spaces.
+ */
+export async function inferFormatting(textDocument: TextDocument): Promise<Formatting> {
+	const text = textDocument.getText();
+	const options = await getFormattingOptions(textDocument.uri);
+	return {
+		indent: options !== undefined ? getIndentFromOptions(options) : detectIndent(text) ?? DEFAULT_INDENT,
+		eol: text.includes('\r\n') ? '\r\n' : '\n',
+	};
+}
+
+function getIndentFromOptions(options: FormattingOptions): string {
+	return options.insertSpaces ? ' '.repeat(options.tabSize) : '\t';
+}
+
+/**
+ * Detects the indentation of a text from the most common increase in indentation between consecutive lines.
+ * Lines inside multi-line comments are ignored, since they are usually aligned with an extra space.
+ *
+ * @returns The indentation, or undefined if the text has no indented lines
+ */
+export function detectIndent(text: string): string | undefined {
+	let tabLines = 0;
+	let spaceLines = 0;
+	const spaceIncreases: Map<number, number> = new Map();
+
+	let previousSpaces = 0;
+	for (const line of text.split(/\r?\n/)) {
+		const trimmed = line.trimStart();
+		if (trimmed.length === 0 || trimmed.startsWith('*')) {
+			continue;
+		}
+
+		const whitespace = line.substring(0, line.length - trimmed.length);
+		if (whitespace.startsWith('\t')) {
+			tabLines++;
+			continue;
+		}
+
+		const spaces = whitespace.length;
+		if (spaces > 0) {
+			spaceLines++;
+		}
+		const increase = spaces - previousSpaces;
+		if (increase > 0 && increase <= 8) {
+			spaceIncreases.set(increase, (spaceIncreases.get(increase) ?? 0) + 1);
+		}
+		previousSpaces = spaces;
+	}
+
+	if (tabLines === 0 && spaceLines === 0) {
+		return undefined;
+	} else if (tabLines > spaceLines) {
+		return '\t';
+	}
+
+	let mostCommonIncrease = 0;
+	let mostCommonCount = 0;
+	for (const [increase, count] of spaceIncreases) {
+		if (count > mostCommonCount) {
+			mostCommonIncrease = increase;
+			mostCommonCount = count;
+		}
+	}
+	return mostCommonIncrease > 0 ? ' '.repeat(mostCommonIncrease) : undefined;
+}
+
+/**
+ * Replaces the line endings in the new text of all edits with the given end of line sequence.
+ */
+export function applyEol(workspaceEdit: WorkspaceEdit, eol: string): WorkspaceEdit {
+	for (const edits of Object.values(workspaceEdit.changes ?? {})) {
+		for (const edit of edits) {
+			edit.newText = edit.newText.replace(/\r?\n/g, eol);
+		}
+	}
+	return workspaceEdit;
+}
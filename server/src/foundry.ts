@@ -0,0 +1,71 @@
+import { parse } from '@iarna/toml';
+import semver from 'semver';
+import path from 'path';
+import { promises as fs } from 'fs';
+
+const DEFAULT_PROFILE = 'default';
+
+export type FoundryConfig = {
+	/**
+	 * The Solidity version from `solc` or `solc_version`, if it is set to a version rather than a path to a compiler
+	 */
+	solcVersion?: string;
+	/**
+	 * The folder with the project's contracts, relative to the project root
+	 */
+	src: string;
+	/**
+	 * The folders with dependencies, relative to the project root
+	 */
+	libs: string[];
+	/**
+	 * The remappings in the form `[context:]prefix=target`
+	 */
+	remappings: string[];
+}
+
+/**
+ * Reads `foundry.toml` in the project root, using the profile from the `FOUNDRY_PROFILE` environment variable.
+ * As in Foundry, values that are not set in that profile are taken from the default profile.
+ *
+ * @returns The config, or undefined if the file does not exist or cannot be parsed
+ */
+export async function readFoundryConfig(root: string): Promise<FoundryConfig | undefined> {
+	const configPath = path.join(root, 'foundry.toml');
+
+	let text: string;
+	try {
+		text = await fs.readFile(configPath, 'utf8');
+	} catch (e: any) {
+		return undefined;
+	}
+
+	let toml: Record<string, any>;
+	try {
+		toml = parse(text);
+	} catch (e: any) {
+		console.error(`Could not parse ${configPath}: ${e}`);
+		return undefined;
+	}
+
+	const profileName = process.env.FOUNDRY_PROFILE || DEFAULT_PROFILE;
+	const profiles = toml.profile ?? {};
+	const profile = { ...profiles[DEFAULT_PROFILE], ...profiles[profileName] };
+
+	// `solc` and `solc_version` are aliases, so either one in the selected profile overrides both in the default profile
+	const solc = getSolc(profiles[profileName]) ?? getSolc(profiles[DEFAULT_PROFILE]);
+	return {
+		solcVersion: typeof solc === 'string' ? semver.clean(solc) ?? undefined : undefined,
+		src: typeof profile.src === 'string' ? profile.src : 'src',
+		libs: getStrings(profile.libs) ?? ['lib'],
+		remappings: getStrings(profile.remappings) ?? [],
+	};
+}
+
+function getSolc(profile: Record<string, any> | undefined): unknown {
+	return profile?.solc ?? profile?.solc_version;
+}
+
+function getStrings(value: unknown): string[] | undefined {
+	return Array.isArray(value) ? value.filter(item => typeof item === 'string') : undefined;
+}
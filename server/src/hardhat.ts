@@ -0,0 +1,105 @@
+import semver from 'semver';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { findPropertyValue, LiteralValue } from './helpers/objectLiteral';
+
+const HARDHAT_CONFIG_FILES = ['hardhat.config.ts', 'hardhat.config.js'];
+
+export type HardhatSolidityConfig = {
+	/**
+	 * The versions of the compilers that Hardhat chooses from
+	 */
+	compilers: string[];
+	/**
+	 * The compiler versions for specific source names, which are paths relative to the project root
+	 */
+	overrides: { [sourceName: string]: string };
+}
+
+/**
+ * Reads the `solidity` property of the Hardhat config in the project root, in any of these forms:
+ * - `solidity: "0.8.20"`
+ * - `solidity: { version: "0.8.20" }`
+ * - `solidity: { compilers: [{ version: "0.8.20" }, ...], overrides: { "contracts/Foo.sol": { version: "0.8.24" } } }`
+ *
+ * The config is analyzed statically, so versions that are not literals are ignored.
+ *
+ * @returns The config, or undefined if there is no Hardhat config or it has no compiler versions
+ */
+export async function readHardhatConfig(root: string): Promise<HardhatSolidityConfig | undefined> {
+	for (const configFile of HARDHAT_CONFIG_FILES) {
+		let text: string;
+		try {
+			text = await fs.readFile(path.join(root, configFile), 'utf8');
+		} catch (e: any) {
+			continue;
+		}
+
+		const config = toSolidityConfig(findPropertyValue(text, 'solidity'));
+		if (config !== undefined) {
+			return config;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Gets the compiler version that Hardhat uses for a source file: its override if there is one, otherwise
+ * the latest compiler version that satisfies the file's version pragma, or the latest compiler version if none does.
+ *
+ * @param sourceName the path of the file relative to the project root
+ * @param getPragmaVersion gets the latest of the given versions that satisfies the file's version pragma
+ * @returns The version, or undefined if the config only has overrides for other files
+ */
+export function getHardhatCompilerVersion(config: HardhatSolidityConfig, sourceName: string, getPragmaVersion: (versions: string[]) => string | null): string | undefined {
+	const override = config.overrides[sourceName.split(path.sep).join('/')];
+	if (override !== undefined) {
+		return override;
+	}
+
+	if (config.compilers.length === 0) {
+		return undefined;
+	}
+	return getPragmaVersion(config.compilers) ?? semver.maxSatisfying(config.compilers, '*') ?? undefined;
+}
+
+function toSolidityConfig(value: LiteralValue): HardhatSolidityConfig | undefined {
+	const config: HardhatSolidityConfig = { compilers: [], overrides: {} };
+
+	if (typeof value === 'string') {
+		config.compilers.push(value);
+	} else if (isObject(value)) {
+		const version = getVersion(value);
+		if (version !== undefined) {
+			config.compilers.push(version);
+		}
+
+		if (Array.isArray(value.compilers)) {
+			for (const compiler of value.compilers) {
+				const compilerVersion = getVersion(compiler);
+				if (compilerVersion !== undefined) {
+					config.compilers.push(compilerVersion);
+				}
+			}
+		}
+
+		if (isObject(value.overrides)) {
+			for (const [sourceName, override] of Object.entries(value.overrides)) {
+				const overrideVersion = getVersion(override);
+				if (overrideVersion !== undefined) {
+					config.overrides[sourceName] = overrideVersion;
+				}
+			}
+		}
+	}
+
+	return config.compilers.length > 0 || Object.keys(config.overrides).length > 0 ? config : undefined;
+}
+
+function getVersion(compiler: LiteralValue): string | undefined {
+	return isObject(compiler) && typeof compiler.version === 'string' ? compiler.version : undefined;
+}
+
+function isObject(value: LiteralValue): value is { [key: string]: LiteralValue } {
+	return typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,108 @@
+const CONTEXT_LINES = 3;
+
+type DiffLine = {
+	kind: ' ' | '-' | '+';
+	text: string;
+}
+
+/**
+ * Creates a unified diff between two texts, with the given file names in the header.
+ *
+ * @returns The diff, or an empty string if the texts are equal
+ */
+export function createUnifiedDiff(oldText: string, newText: string, oldName: string, newName: string): string {
+	if (oldText === newText) {
+		return '';
+	}
+
+	const lines = diffLines(splitLines(oldText), splitLines(newText));
+
+	const output = [`--- ${oldName}`, `+++ ${newName}`];
+	let i = 0;
+	while (i < lines.length) {
+		// find the next change
+		while (i < lines.length && lines[i].kind === ' ') {
+			i++;
+		}
+		if (i === lines.length) {
+			break;
+		}
+
+		// extend the hunk until there are more than twice the context lines without changes
+		const start = Math.max(0, i - CONTEXT_LINES);
+		let end = i;
+		let unchanged = 0;
+		while (end < lines.length && unchanged <= 2 * CONTEXT_LINES) {
+			unchanged = lines[end].kind === ' ' ? unchanged + 1 : 0;
+			end++;
+		}
+		end = Math.min(lines.length, end - unchanged + CONTEXT_LINES);
+
+		const hunk = lines.slice(start, end);
+		const oldStart = lines.slice(0, start).filter(line => line.kind !== '+').length + 1;
+		const newStart = lines.slice(0, start).filter(line => line.kind !== '-').length + 1;
+		const oldCount = hunk.filter(line => line.kind !== '+').length;
+		const newCount = hunk.filter(line => line.kind !== '-').length;
+		output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+		output.push(...hunk.map(line => line.kind + line.text));
+
+		i = end;
+	}
+
+	return output.join('\n') + '\n';
+}
+
+function splitLines(text: string): string[] {
+	const lines = text.split(/\r?\n/);
+	if (lines[lines.length - 1] === '') {
+		lines.pop();
+	}
+	return lines;
+}
+
+/**
+ * Diffs two lists of lines using their longest common subsequence.
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+	// common lines at the start and end are kept out of the quadratic part
+	let prefix = 0;
+	while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+		prefix++;
+	}
+	let suffix = 0;
+	while (suffix < oldLines.length - prefix && suffix < newLines.length - prefix && oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]) {
+		suffix++;
+	}
+
+	const a = oldLines.slice(prefix, oldLines.length - suffix);
+	const b = newLines.slice(prefix, newLines.length - suffix);
+
+	// lengths[i * (b.length + 1) + j] is the length of the longest common subsequence of a[i..] and b[j..]
+	const width = b.length + 1;
+	const lengths = new Uint32Array((a.length + 1) * width);
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lengths[i * width + j] = a[i] === b[j] ? lengths[(i + 1) * width + j + 1] + 1 : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+		}
+	}
+
+	const result: DiffLine[] = oldLines.slice(0, prefix).map(text => ({ kind: ' ', text }));
+	let i = 0;
+	let j = 0;
+	while (i < a.length || j < b.length) {
+		if (i < a.length && j < b.length && a[i] === b[j]) {
+			result.push({ kind: ' ', text: a[i] });
+			i++;
+			j++;
+		} else if (i < a.length && (j === b.length || lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+			result.push({ kind: '-', text: a[i] });
+			i++;
+		} else {
+			result.push({ kind: '+', text: b[j] });
+			j++;
+		}
+	}
+	result.push(...oldLines.slice(oldLines.length - suffix).map(text => ({ kind: ' ' as const, text })));
+
+	return result;
+}
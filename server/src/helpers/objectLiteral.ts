@@ -0,0 +1,178 @@
+export type LiteralValue = string | number | boolean | LiteralValue[] | { [key: string]: LiteralValue } | undefined;
+
+type Token = {
+	kind: 'string' | 'number' | 'identifier' | 'punctuation';
+	text: string;
+}
+
+const OPENING_BRACKETS = ['{', '[', '('];
+const CLOSING_BRACKETS = ['}', ']', ')'];
+
+/**
+ * Finds a property with the given name in JavaScript or TypeScript source code, such as `name: value` in an object literal,
+ * and evaluates its value without running the code. Parts of the value that are not literals, such as variables
+ * or function calls, evaluate to undefined.
+ *
+ * @returns The value of the first such property that can be evaluated, or undefined if there is none
+ */
+export function findPropertyValue(source: string, name: string): LiteralValue {
+	const tokens = tokenize(source);
+	for (let i = 0; i + 1 < tokens.length; i++) {
+		const token = tokens[i];
+		if ((token.kind === 'identifier' || token.kind === 'string') && token.text === name && tokens[i + 1].text === ':') {
+			// the same syntax is used for type annotations, such as `const solidity: SolidityUserConfig = ...`
+			const value = new LiteralParser(tokens, i + 2).parseValue();
+			if (value !== undefined) {
+				return value;
+			}
+		}
+	}
+	return undefined;
+}
+
+class LiteralParser {
+	constructor(private readonly tokens: Token[], private position: number) {}
+
+	parseValue(): LiteralValue {
+		const token = this.tokens[this.position];
+		if (token === undefined) {
+			return undefined;
+		}
+
+		let value: LiteralValue;
+		if (token.text === '{') {
+			value = this.parseObject();
+		} else if (token.text === '[') {
+			value = this.parseArray();
+		} else if (token.kind === 'string') {
+			value = token.text;
+			this.position++;
+		} else if (token.kind === 'number') {
+			value = Number(token.text);
+			this.position++;
+		} else if (token.kind === 'identifier' && (token.text === 'true' || token.text === 'false')) {
+			value = token.text === 'true';
+			this.position++;
+		}
+
+		// anything that follows the literal is part of a larger expression, except for a type assertion such as `as const`
+		const next = this.tokens[this.position];
+		if (value === undefined || (!this.isEndOfValue() && next.text !== 'as')) {
+			value = undefined;
+		}
+		this.skipToEndOfValue();
+		return value;
+	}
+
+	private parseObject(): { [key: string]: LiteralValue } {
+		const result: { [key: string]: LiteralValue } = {};
+
+		this.position++;
+		while (this.position < this.tokens.length && this.tokens[this.position].text !== '}') {
+			const start = this.position;
+			const key = this.tokens[this.position];
+			if (key.kind !== 'punctuation' && this.tokens[this.position + 1]?.text === ':') {
+				this.position += 2;
+				result[key.text] = this.parseValue();
+			} else {
+				// shorthand properties, spread elements and methods cannot be evaluated
+				this.skipToEndOfValue();
+			}
+			this.skipSeparator(start);
+		}
+		this.position++;
+
+		return result;
+	}
+
+	private parseArray(): LiteralValue[] {
+		const result: LiteralValue[] = [];
+
+		this.position++;
+		while (this.position < this.tokens.length && this.tokens[this.position].text !== ']') {
+			const start = this.position;
+			result.push(this.parseValue());
+			this.skipSeparator(start);
+		}
+		this.position++;
+
+		return result;
+	}
+
+	/**
+	 * Skips the comma after an element, or any other token if the element was empty, such as in malformed code.
+	 */
+	private skipSeparator(elementStart: number) {
+		if (this.tokens[this.position]?.text === ',' || this.position === elementStart) {
+			this.position++;
+		}
+	}
+
+	private isEndOfValue() {
+		const token = this.tokens[this.position];
+		return token === undefined || [',', ';', ...CLOSING_BRACKETS].includes(token.text);
+	}
+
+	/**
+	 * Skips tokens until the end of the current value, including any nested brackets.
+	 */
+	private skipToEndOfValue() {
+		let depth = 0;
+		while (this.position < this.tokens.length && (depth > 0 || !this.isEndOfValue())) {
+			const text = this.tokens[this.position].text;
+			if (OPENING_BRACKETS.includes(text)) {
+				depth++;
+			} else if (CLOSING_BRACKETS.includes(text)) {
+				depth--;
+			}
+			this.position++;
+		}
+	}
+}
+
+/**
+ * Splits source code into tokens, skipping whitespace and comments. String tokens contain the string's value without quotes.
+ * Template literals are treated as strings, including any placeholders.
+ */
+function tokenize(source: string): Token[] {
+	const tokens: Token[] = [];
+	const wordRegex = /(\d[\d._]*)|([A-Za-z_$][\w$]*)/y;
+
+	let i = 0;
+	while (i < source.length) {
+		const char = source[i];
+		if (/\s/.test(char)) {
+			i++;
+		} else if (source.startsWith('//', i)) {
+			const end = source.indexOf('\n', i);
+			i = end === -1 ? source.length : end;
+		} else if (source.startsWith('/*', i)) {
+			const end = source.indexOf('*/', i + 2);
+			i = end === -1 ? source.length : end + 2;
+		} else if (char === '"' || char === "'" || char === '`') {
+			let text = '';
+			i++;
+			while (i < source.length && source[i] !== char) {
+				if (source[i] === '\\' && i + 1 < source.length) {
+					i++;
+				}
+				text += source[i];
+				i++;
+			}
+			i++;
+			tokens.push({ kind: 'string', text });
+		} else {
+			wordRegex.lastIndex = i;
+			const match = wordRegex.exec(source);
+			if (match !== null) {
+				tokens.push({ kind: match[1] !== undefined ? 'number' : 'identifier', text: match[0] });
+				i += match[0].length;
+			} else {
+				tokens.push({ kind: 'punctuation', text: char });
+				i++;
+			}
+		}
+	}
+
+	return tokens;
+}
@@ -5,10 +5,11 @@ import {
 import { NonterminalKind, TerminalKind } from "@nomicfoundation/slang/kinds";
 import assert = require('node:assert');
 import { Node, NodeType, NonterminalNode, TerminalNode } from '@nomicfoundation/slang/cst';
-import { cursor, text_index } from '@nomicfoundation/slang';
+import { cursor, parse_output, text_index } from '@nomicfoundation/slang';
 import { Language } from '@nomicfoundation/slang/language';
 import { Query } from '@nomicfoundation/slang/query';
 import semver from 'semver';
+import { ContractDefinition } from '@nomicfoundation/slang/ast';
 
 /**
  * Returns true if the node is a trivia terminal (whitespace or comment or NatSpec)
@@ -53,10 +54,16 @@ function goToFirstNonTrivia(cursor: cursor.Cursor): boolean {
 }
 
 /**
- * Gets the NatSpec comment within the leading trivia nodes starting from the cursor
+ * Gets the NatSpec comment within the leading trivia nodes starting from the cursor. If it is a `///` comment,
+ * it is joined with the `///` comments on the lines directly above it, including the line breaks between them,
+ * since each line is a separate comment.
  */
-export function getNatSpec(cursor: cursor.Cursor) {
-	return getLastPrecedingTriviaWithKinds(cursor, [TerminalKind.MultiLineNatSpecComment, TerminalKind.SingleLineNatSpecComment]);
+export function getNatSpec(cursor: cursor.Cursor): TriviaTextWithRange | undefined {
+	const triviaCursor = cursor.spawn();
+	if (!goToFirstNonTrivia(triviaCursor) || !goToPreviousTerminalWithKinds(triviaCursor, [TerminalKind.MultiLineNatSpecComment, TerminalKind.SingleLineNatSpecComment])) {
+		return undefined;
+	}
+	return joinPrecedingSingleLineComments(triviaCursor);
 }
 
 interface TriviaTextWithRange {
@@ -83,6 +90,50 @@ export function getLastPrecedingTriviaWithKinds(cursor: cursor.Cursor, kinds: Te
 	return result;
 }
 
+/**
+ * Gets the last comment from the leading trivia nodes starting from the cursor. If it is a single-line comment,
+ * it is joined with the single-line comments on the lines directly above it, including the line breaks between them.
+ */
+export function getLastPrecedingCommentBlock(cursor: cursor.Cursor): TriviaTextWithRange | undefined {
+	const triviaCursor = cursor.spawn();
+	if (!goToFirstNonTrivia(triviaCursor) || !goToPreviousTerminalWithKinds(triviaCursor, [TerminalKind.SingleLineComment, TerminalKind.MultiLineComment])) {
+		return undefined;
+	}
+
+	return joinPrecedingSingleLineComments(triviaCursor);
+}
+
+/**
+ * Gets the comment at the cursor. If it is a single-line comment or NatSpec, it is joined with the comments
+ * of the same kind on the lines directly above it.
+ */
+function joinPrecedingSingleLineComments(triviaCursor: cursor.Cursor): TriviaTextWithRange {
+	const node = triviaCursor.node();
+	assert(node instanceof TerminalNode);
+	const result = { text: node.text, textRange: triviaCursor.textRange, kind: node.kind };
+	if (node.kind !== TerminalKind.SingleLineComment && node.kind !== TerminalKind.SingleLineNatSpecComment) {
+		return result;
+	}
+
+	let separator = '';
+	while (triviaCursor.goToPrevious()) {
+		const previous = triviaCursor.node();
+		if (previous.type !== NodeType.Terminal) {
+			continue;
+		}
+		if (previous.kind === node.kind) {
+			result.text = previous.text + separator + result.text;
+			result.textRange = { start: triviaCursor.textRange.start, end: result.textRange.end };
+			separator = '';
+		} else if (previous.kind === TerminalKind.Whitespace || (previous.kind === TerminalKind.EndOfLine && !separator.includes('\n'))) {
+			separator = previous.text + separator;
+		} else {
+			break;
+		}
+	}
+	return result;
+}
+
 function goToPreviousTerminalWithKinds(cursor: cursor.Cursor, kinds: TerminalKind[]) {
 	while (cursor.goToPrevious()) {
 		const node = cursor.node();
@@ -115,17 +166,33 @@ export function getTrimmedRange(cursor: cursor.Cursor) {
 	// move to the last terminal
 	goToLastTerminal(childCursor);
 
-	// move back until we find a non-whitespace terminal
-	while (childCursor.goToPrevious()) {
+	// move back until we find a non-whitespace terminal, starting from the last terminal itself
+	do {
 		if (childCursor.node().type === NodeType.Terminal && !isTrivia(childCursor.node())) {
 			end = childCursor.textRange.end;
 			break;
 		}
-	}
+	} while (childCursor.goToPrevious());
 
 	return { start, end };
 }
 
+/**
+ * Finds a contract definition with the given name in the parse output
+ * @returns a cursor pointing to the ContractDefinition, or undefined if not found
+ */
+export function findContractDefinition(parseOutput: parse_output.ParseOutput, contractName: string): cursor.Cursor | undefined {
+	const cursor = parseOutput.createTreeCursor();
+	while (cursor.goToNextNonterminalWithKind(NonterminalKind.ContractDefinition)) {
+		const contractNode = cursor.node();
+		assert(contractNode instanceof NonterminalNode);
+		if (new ContractDefinition(contractNode).name.text === contractName) {
+			return cursor.spawn();
+		}
+	}
+	return undefined;
+}
+
 // from https://github.com/NomicFoundation/hardhat-vscode/blob/8190465cf6a98b8a500393e36c4daa967495bc3b/server/src/parser/slangHelpers.ts#L24
 export function slangToVSCodeRange(doc: TextDocument, slangRange: text_index.TextRange): Range {
 	return {
@@ -135,9 +202,15 @@ export function slangToVSCodeRange(doc: TextDocument, slangRange: text_index.Tex
 }
 
 export function getHighestSupportedPragmaVersion(textDocument: TextDocument) {
-	const allSolidityVersions = Language.supportedVersions();
+	return getHighestPragmaVersion(textDocument, Language.supportedVersions());
+}
 
-	const language = new Language(allSolidityVersions[allSolidityVersions.length - 1]);
+/**
+ * Gets the highest of the given versions that satisfies a version pragma of the document.
+ */
+export function getHighestPragmaVersion(textDocument: TextDocument, versions: string[]) {
+	const supportedVersions = Language.supportedVersions();
+	const language = new Language(supportedVersions[supportedVersions.length - 1]);
 	const parseOutput = language.parse(NonterminalKind.SourceUnit, textDocument.getText());
 
 	const cursor = parseOutput.createTreeCursor();
@@ -160,7 +233,7 @@ export function getHighestSupportedPragmaVersion(textDocument: TextDocument) {
 			assert(versionExpression instanceof NonterminalNode);
 			const version = versionExpression.unparse().trim();
 
-			const maxSatisfying = semver.maxSatisfying(allSolidityVersions, version);
+			const maxSatisfying = semver.maxSatisfying(versions, version);
 			if (maxSatisfying !== null) {
 				possibleHighestVersions.push(maxSatisfying);
 			} else {
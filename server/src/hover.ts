@@ -0,0 +1,117 @@
+import { Hover, MarkupKind, Position } from 'vscode-languageserver/node';
+import { Range, TextDocument } from 'vscode-languageserver-textdocument';
+import { NonterminalKind, TerminalKind } from '@nomicfoundation/slang/kinds';
+import { TerminalNode } from '@nomicfoundation/slang/cst';
+import assert = require('node:assert');
+import { slangToVSCodeRange } from './helpers/slang';
+import { findLocationConstant, findNamespaceForConstant, getLocationConstants, getStorageLayout, getStorageSlots, getTypeDefinitions, LocationConstant, NamespaceLayout, TypeDefinition } from './layout';
+import { parseTextDocument } from './documentCache';
+
+/**
+ * Gets hover information for a namespace when hovering over any of the following:
+ * - A `@custom:storage-location <formula>:<id>` annotation
+ * - A `*StorageLocation` or `*_STORAGE_LOCATION` constant, or a reference to it
+ * - A `_get*Storage()` function name
+ */
+export async function getHover(textDocument: TextDocument, position: Position): Promise<Hover | undefined> {
+	const { parseOutput } = await parseTextDocument(textDocument);
+	const typeDefinitions = getTypeDefinitions(parseOutput, textDocument);
+
+	const cursor = parseOutput.createTreeCursor();
+	while (cursor.goToNextNonterminalWithKind(NonterminalKind.ContractDefinition)) {
+		const contractRange = slangToVSCodeRange(textDocument, cursor.textRange);
+		if (!containsPosition(contractRange, position)) {
+			continue;
+		}
+
+		const namespaces = getStorageLayout(cursor, textDocument).namespaces;
+		if (namespaces.length === 0) {
+			return undefined;
+		}
+		const constants = getLocationConstants(cursor, textDocument);
+
+		for (const namespace of namespaces) {
+			if (containsPosition(namespace.annotationRange, position)) {
+				return printNamespaceHover(namespace, findLocationConstant(namespace, namespaces, constants), typeDefinitions, namespace.annotationRange);
+			}
+		}
+
+		for (const constant of constants) {
+			if (containsPosition(constant.range, position)) {
+				const namespace = findNamespaceForConstant(constant, namespaces);
+				return namespace !== undefined ? printNamespaceHover(namespace, constant, typeDefinitions, constant.range) : undefined;
+			}
+		}
+
+		const identifierCursor = cursor.spawn();
+		while (identifierCursor.goToNextTerminalWithKinds([TerminalKind.Identifier, TerminalKind.YulIdentifier])) {
+			const identifierRange = slangToVSCodeRange(textDocument, identifierCursor.textRange);
+			if (!containsPosition(identifierRange, position)) {
+				continue;
+			}
+
+			const identifierNode = identifierCursor.node();
+			assert(identifierNode instanceof TerminalNode);
+
+			const constant = constants.find(constant => constant.name === identifierNode.text);
+			const namespace = constant !== undefined ?
+				findNamespaceForConstant(constant, namespaces) :
+				namespaces.find(namespace => identifierNode.text === `_get${namespace.structName}`);
+			if (namespace !== undefined) {
+				return printNamespaceHover(namespace, constant ?? findLocationConstant(namespace, namespaces, constants), typeDefinitions, identifierRange);
+			}
+			return undefined;
+		}
+	}
+
+	return undefined;
+}
+
+function containsPosition(range: Range, position: Position) {
+	return (position.line > range.start.line || (position.line === range.start.line && position.character >= range.start.character)) &&
+		(position.line < range.end.line || (position.line === range.end.line && position.character <= range.end.character));
+}
+
+function printNamespaceHover(namespace: NamespaceLayout, constant: LocationConstant | undefined, typeDefinitions: Map<string, TypeDefinition>, range: Range): Hover {
+	const location = namespace.formula.calculateLocation(namespace.namespaceId);
+
+	let constantStatus: string;
+	if (constant === undefined) {
+		constantStatus = 'No storage location constant found';
+	} else if (constant.value.toLowerCase().includes(location)) {
+		constantStatus = `\`${constant.name}\` matches the storage location`;
+	} else {
+		constantStatus = `\`${constant.name}\` does not match the storage location: \`${constant.value}\``;
+	}
+
+	const { slots, totalSlots } = getStorageSlots(namespace.members, typeDefinitions);
+	const fieldRows = slots.map(slot => `| ${slot.slot} | ${slot.offset} | \`${slot.item.typeName} ${slot.item.name}\` |`);
+
+	const lines = [
+		`**${namespace.formula.label} namespace** \`${namespace.namespaceId}\``,
+		'',
+		`Storage location: \`${location}\``,
+		'',
+		constantStatus,
+		'',
+	];
+	if (slots.length > 0) {
+		lines.push(
+			`\`${namespace.structName}\` uses ${totalSlots} slot${totalSlots === 1 ? '' : 's'}, relative to the storage location:`,
+			'',
+			'| Slot | Offset | Field |',
+			'| --- | --- | --- |',
+			...fieldRows,
+		);
+	} else {
+		lines.push(`\`${namespace.structName}\` has no fields`);
+	}
+
+	return {
+		contents: {
+			kind: MarkupKind.Markdown,
+			value: lines.join('\n'),
+		},
+		range,
+	};
+}
@@ -0,0 +1,310 @@
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { NonterminalKind } from '@nomicfoundation/slang/kinds';
+import { NonterminalNode } from '@nomicfoundation/slang/cst';
+import { ImportDeconstruction, NamedImport, PathImport } from '@nomicfoundation/slang/ast';
+import { parse_output } from '@nomicfoundation/slang';
+import { Language } from '@nomicfoundation/slang/language';
+import assert = require('node:assert');
+import { URI } from 'vscode-uri';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { readFoundryConfig } from './foundry';
+import { getProject } from './workspace';
+import { findContractDefinition } from './helpers/slang';
+
+export type Remapping = {
+	prefix: string;
+	target: string;
+}
+
+export type SourceUnit = {
+	file: string;
+	textDocument: TextDocument;
+	parseOutput: parse_output.ParseOutput;
+}
+
+/**
+ * Parsed imported files, by path. Entries are reused as long as the file content does not change.
+ */
+const sourceUnitCache: Map<string, SourceUnit> = new Map();
+
+/**
+ * The remappings of each project root or set of workspace folders, until the config files or dependencies change.
+ */
+const remappingsCache: Map<string, Promise<Remapping[]>> = new Map();
+
+/**
+ * Clears the cached remappings, such as when `foundry.toml` or `remappings.txt` change or dependencies are installed.
+ */
+export function clearRemappingsCache() {
+	remappingsCache.clear();
+}
+
+/**
+ * Reads the remappings of each workspace folder from `foundry.toml` and `remappings.txt`, followed by
+ * the remappings that Foundry infers for each dependency in its `libs` folders, such as `forge-std/=lib/forge-std/src/`.
+ * Remapping contexts (`context:prefix=target`) are ignored, so remappings apply to all files.
+ */
+export async function readRemappings(workspaceFolders: string[]): Promise<Remapping[]> {
+	const remappings: Remapping[] = [];
+	for (const workspaceFolder of workspaceFolders) {
+		const foundryConfig = await readFoundryConfig(workspaceFolder);
+
+		const lines = foundryConfig?.remappings ?? [];
+		try {
+			lines.push(...(await fs.readFile(path.join(workspaceFolder, 'remappings.txt'), 'utf8')).split(/\r?\n/));
+		} catch (e: any) {
+			// no remappings.txt
+		}
+
+		for (const line of lines) {
+			const remapping = parseRemapping(line, workspaceFolder);
+			if (remapping !== undefined) {
+				remappings.push(remapping);
+			}
+		}
+
+		if (foundryConfig !== undefined) {
+			remappings.push(...await getLibraryRemappings(workspaceFolder, foundryConfig.libs));
+		}
+	}
+	return remappings;
+}
+
+/**
+ * Gets a remapping for each dependency in the given folders, to the dependency's `src` folder if it has one.
+ */
+async function getLibraryRemappings(root: string, libs: string[]): Promise<Remapping[]> {
+	const remappings: Remapping[] = [];
+	for (const lib of libs) {
+		let entries;
+		try {
+			entries = await fs.readdir(path.resolve(root, lib), { withFileTypes: true });
+		} catch (e: any) {
+			continue;
+		}
+
+		for (const entry of entries.filter(entry => entry.isDirectory())) {
+			const dependency = path.resolve(root, lib, entry.name);
+			const src = path.join(dependency, 'src');
+			const hasSrc = await fs.stat(src).then(stat => stat.isDirectory(), () => false);
+			remappings.push({ prefix: `${entry.name}/`, target: hasSrc ? src : dependency });
+		}
+	}
+	return remappings;
+}
+
+/**
+ * Parses a remapping in the form `[context:]prefix=target`, resolving the target relative to the given root folder.
+ */
+export function parseRemapping(line: string, rootFolder: string): Remapping | undefined {
+	const trimmed = line.trim();
+	const separatorIndex = trimmed.indexOf('=');
+	if (trimmed.length === 0 || trimmed.startsWith('#') || separatorIndex <= 0) {
+		return undefined;
+	}
+
+	let prefix = trimmed.substring(0, separatorIndex);
+	const contextIndex = prefix.indexOf(':');
+	if (contextIndex >= 0) {
+		prefix = prefix.substring(contextIndex + 1);
+	}
+	const target = trimmed.substring(separatorIndex + 1);
+	return { prefix, target: path.resolve(rootFolder, target) };
+}
+
+/**
+ * Gets the paths of all import directives in a source unit, as written in the source.
+ */
+export function getImportPaths(parseOutput: parse_output.ParseOutput): string[] {
+	const importPaths: string[] = [];
+
+	const cursor = parseOutput.createTreeCursor();
+	while (cursor.goToNextNonterminalWithKinds([NonterminalKind.PathImport, NonterminalKind.NamedImport, NonterminalKind.ImportDeconstruction])) {
+		const node = cursor.node();
+		assert(node instanceof NonterminalNode);
+
+		let importPath;
+		switch (node.kind) {
+			case NonterminalKind.PathImport:
+				importPath = new PathImport(node).path;
+				break;
+			case NonterminalKind.NamedImport:
+				importPath = new NamedImport(node).path;
+				break;
+			default:
+				importPath = new ImportDeconstruction(node).path;
+				break;
+		}
+		// remove the quotes
+		importPaths.push(importPath.variant.text.slice(1, -1));
+	}
+
+	return importPaths;
+}
+
+/**
+ * Resolves an import path to a file on disk. Relative imports are resolved from the importing file.
+ * Other imports are resolved using the remappings, then relative to each workspace folder, and finally
+ * from the `node_modules` folders above the importing file.
+ *
+ * @returns The resolved file path, or undefined if the file could not be found
+ */
+export async function resolveImport(importPath: string, importingFile: string, workspaceFolders: string[], remappings: Remapping[]): Promise<string | undefined> {
+	const candidatePaths: string[] = [];
+
+	if (importPath.startsWith('./') || importPath.startsWith('../')) {
+		candidatePaths.push(path.resolve(path.dirname(importingFile), importPath));
+	} else {
+		// the longest matching prefix takes precedence
+		const remapping = remappings
+			.filter(remapping => importPath.startsWith(remapping.prefix))
+			.sort((a, b) => b.prefix.length - a.prefix.length)[0];
+		if (remapping !== undefined) {
+			candidatePaths.push(path.join(remapping.target, importPath.substring(remapping.prefix.length)));
+		}
+
+		for (const workspaceFolder of workspaceFolders) {
+			candidatePaths.push(path.join(workspaceFolder, importPath));
+		}
+
+		let dir = path.dirname(importingFile);
+		let parent = dir;
+		do {
+			dir = parent;
+			candidatePaths.push(path.join(dir, 'node_modules', importPath));
+			parent = path.dirname(dir);
+		} while (parent !== dir);
+	}
+
+	for (const candidatePath of candidatePaths) {
+		try {
+			if ((await fs.stat(candidatePath)).isFile()) {
+				return candidatePath;
+			}
+		} catch (e: any) {
+			continue;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Gets the given document and all source units that it imports, directly or transitively, in breadth-first order.
+ * Imports that cannot be resolved are skipped.
+ */
+export async function getImportedSourceUnits(parseOutput: parse_output.ParseOutput, textDocument: TextDocument, language: Language, workspaceFolders: string[]): Promise<SourceUnit[]> {
+	const documentPath = URI.parse(textDocument.uri).fsPath;
+	const { importRoots, remappings } = await getImportResolution(documentPath, workspaceFolders);
+
+	const sourceUnits: SourceUnit[] = [{ file: documentPath, textDocument, parseOutput }];
+	const visited = new Set([documentPath]);
+
+	for (let i = 0; i < sourceUnits.length; i++) {
+		const sourceUnit = sourceUnits[i];
+		for (const importPath of getImportPaths(sourceUnit.parseOutput)) {
+			const resolvedPath = await resolveImport(importPath, sourceUnit.file, importRoots, remappings);
+			if (resolvedPath === undefined) {
+				console.log(`Could not resolve import ${importPath} from ${sourceUnit.file}`);
+				continue;
+			}
+			if (visited.has(resolvedPath)) {
+				continue;
+			}
+			visited.add(resolvedPath);
+
+			const importedSourceUnit = await readSourceUnit(resolvedPath, language);
+			if (importedSourceUnit !== undefined) {
+				sourceUnits.push(importedSourceUnit);
+			}
+		}
+	}
+
+	return sourceUnits;
+}
+
+/**
+ * Whether a contract with the given name can be used in the document without qualification through its import directives,
+ * either from an import such as `import {Name} from "...";`, or from an import such as `import "...";` of a file that defines
+ * the contract or imports it in the same way.
+ */
+export async function isContractImported(contractName: string, parseOutput: parse_output.ParseOutput, textDocument: TextDocument, language: Language, workspaceFolders: string[]): Promise<boolean> {
+	const documentPath = URI.parse(textDocument.uri).fsPath;
+	const { importRoots, remappings } = await getImportResolution(documentPath, workspaceFolders);
+	const visited = new Set([documentPath]);
+
+	const isImportedIn = async (sourceUnitParseOutput: parse_output.ParseOutput, file: string): Promise<boolean> => {
+		const cursor = sourceUnitParseOutput.createTreeCursor();
+		while (cursor.goToNextNonterminalWithKinds([NonterminalKind.PathImport, NonterminalKind.ImportDeconstruction])) {
+			const node = cursor.node();
+			assert(node instanceof NonterminalNode);
+
+			if (node.kind === NonterminalKind.ImportDeconstruction) {
+				if (new ImportDeconstruction(node).symbols.items.some(symbol => (symbol.alias?.identifier ?? symbol.name).text === contractName)) {
+					return true;
+				}
+				continue;
+			}
+
+			const pathImport = new PathImport(node);
+			if (pathImport.alias !== undefined) {
+				continue;
+			}
+			const resolvedPath = await resolveImport(pathImport.path.variant.text.slice(1, -1), file, importRoots, remappings);
+			if (resolvedPath === undefined || visited.has(resolvedPath)) {
+				continue;
+			}
+			visited.add(resolvedPath);
+
+			const importedSourceUnit = await readSourceUnit(resolvedPath, language);
+			if (importedSourceUnit !== undefined && (findContractDefinition(importedSourceUnit.parseOutput, contractName) !== undefined || await isImportedIn(importedSourceUnit.parseOutput, resolvedPath))) {
+				return true;
+			}
+		}
+		return false;
+	};
+
+	return isImportedIn(parseOutput, documentPath);
+}
+
+/**
+ * Gets the folders and remappings that imports of a file are resolved with. Remappings are read from the project that the file
+ * belongs to, whose root also takes precedence for non-relative imports.
+ */
+async function getImportResolution(file: string, workspaceFolders: string[]): Promise<{ importRoots: string[], remappings: Remapping[] }> {
+	const project = await getProject(file, workspaceFolders);
+	const remappingRoots = project !== undefined ? [project.root] : workspaceFolders;
+
+	const key = remappingRoots.join(path.delimiter);
+	let remappings = remappingsCache.get(key);
+	if (remappings === undefined) {
+		remappings = readRemappings(remappingRoots);
+		remappingsCache.set(key, remappings);
+	}
+
+	const importRoots = project !== undefined ? [project.root, ...workspaceFolders.filter(folder => folder !== project.root)] : workspaceFolders;
+	return { importRoots, remappings: await remappings };
+}
+
+/**
+ * Reads and parses a file, reusing the previous result if its content did not change.
+ */
+export async function readSourceUnit(file: string, language: Language): Promise<SourceUnit | undefined> {
+	let text: string;
+	try {
+		text = await fs.readFile(file, 'utf8');
+	} catch (e: any) {
+		console.error(`Could not read file ${file}: ${e}`);
+		return undefined;
+	}
+
+	const cached = sourceUnitCache.get(file);
+	if (cached !== undefined && cached.textDocument.getText() === text) {
+		return cached;
+	}
+
+	const textDocument = TextDocument.create(URI.file(file).toString(), 'solidity', 0, text);
+	const sourceUnit = { file, textDocument, parseOutput: language.parse(NonterminalKind.SourceUnit, text) };
+	sourceUnitCache.set(file, sourceUnit);
+	return sourceUnit;
+}
@@ -0,0 +1,109 @@
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { NonterminalNode } from '@nomicfoundation/slang/cst';
+import { ContractDefinition } from '@nomicfoundation/slang/ast';
+import { cursor } from '@nomicfoundation/slang';
+import assert = require('node:assert');
+import { findContractDefinition } from './helpers/slang';
+import { SourceUnit } from './imports';
+
+export type LinearizedContract = {
+	name: string;
+	textDocument: TextDocument;
+	/**
+	 * A cursor pointing to the ContractDefinition
+	 */
+	cursor: cursor.Cursor;
+	/**
+	 * The names of the direct base contracts, in the order they are listed
+	 */
+	bases: string[];
+}
+
+/**
+ * Gets the C3 linearization of a contract's inheritance hierarchy, from the most derived contract (the contract itself)
+ * to the most base contract, like the Solidity compiler. Base contracts are looked up by name in the given source units.
+ * Bases that cannot be found, such as interfaces, are left out.
+ *
+ * @param contractCursor a cursor pointing to a ContractDefinition
+ * @param sourceUnits the source units that are visible from the contract's document, with the document itself first
+ * @returns The linearization, or undefined if the inheritance hierarchy cannot be linearized
+ */
+export function getLinearizedContracts(contractCursor: cursor.Cursor, textDocument: TextDocument, sourceUnits: SourceUnit[]): LinearizedContract[] | undefined {
+	const linearizations: Map<string, LinearizedContract[] | undefined> = new Map();
+	return linearize(toLinearizedContract(contractCursor, textDocument), sourceUnits, linearizations);
+}
+
+function linearize(contract: LinearizedContract, sourceUnits: SourceUnit[], linearizations: Map<string, LinearizedContract[] | undefined>): LinearizedContract[] | undefined {
+	if (linearizations.has(contract.name)) {
+		return linearizations.get(contract.name);
+	}
+	// guards against cyclic inheritance
+	linearizations.set(contract.name, undefined);
+
+	const bases: LinearizedContract[] = [];
+	for (const baseName of contract.bases) {
+		const base = findContract(baseName, sourceUnits);
+		if (base !== undefined) {
+			bases.push(base);
+		}
+	}
+
+	// Solidity lists bases from the most base-like to the most derived, so they are merged in reverse order
+	const sequences: LinearizedContract[][] = [];
+	for (const base of [...bases].reverse()) {
+		const baseLinearization = linearize(base, sourceUnits, linearizations);
+		if (baseLinearization === undefined) {
+			return undefined;
+		}
+		sequences.push([...baseLinearization]);
+	}
+	sequences.push([...bases].reverse());
+
+	const merged = merge(sequences);
+	const result = merged !== undefined ? [contract, ...merged] : undefined;
+	linearizations.set(contract.name, result);
+	return result;
+}
+
+function merge(sequences: LinearizedContract[][]): LinearizedContract[] | undefined {
+	const result: LinearizedContract[] = [];
+	let remaining = sequences.filter(sequence => sequence.length > 0);
+	while (remaining.length > 0) {
+		// the next contract is the first head that does not appear in the tail of any sequence
+		const next = remaining
+			.map(sequence => sequence[0])
+			.find(head => !remaining.some(sequence => sequence.slice(1).some(contract => contract.name === head.name)));
+		if (next === undefined) {
+			return undefined;
+		}
+
+		result.push(next);
+		for (const sequence of remaining) {
+			if (sequence[0].name === next.name) {
+				sequence.shift();
+			}
+		}
+		remaining = remaining.filter(sequence => sequence.length > 0);
+	}
+	return result;
+}
+
+function findContract(name: string, sourceUnits: SourceUnit[]): LinearizedContract | undefined {
+	for (const sourceUnit of sourceUnits) {
+		const contractCursor = findContractDefinition(sourceUnit.parseOutput, name);
+		if (contractCursor !== undefined) {
+			return toLinearizedContract(contractCursor, sourceUnit.textDocument);
+		}
+	}
+	return undefined;
+}
+
+function toLinearizedContract(contractCursor: cursor.Cursor, textDocument: TextDocument): LinearizedContract {
+	const contractNode = contractCursor.node();
+	assert(contractNode instanceof NonterminalNode);
+	const contractDef = new ContractDefinition(contractNode);
+
+	// use the last identifier of qualified names such as `Lib.Base`
+	const bases = contractDef.inheritance?.types.items.map(type => type.typeName.items[type.typeName.items.length - 1].text) ?? [];
+	return { name: contractDef.name.text, textDocument, cursor: contractCursor, bases };
+}
@@ -0,0 +1,529 @@
+import { Range, TextDocument } from 'vscode-languageserver-textdocument';
+import { NonterminalKind, TerminalKind } from '@nomicfoundation/slang/kinds';
+import { NonterminalNode, TerminalNode } from '@nomicfoundation/slang/cst';
+import { ContractDefinition, EnumDefinition, InterfaceDefinition, StateVariableDefinition, StructDefinition, UserDefinedValueTypeDefinition } from '@nomicfoundation/slang/ast';
+import { cursor, parse_output } from '@nomicfoundation/slang';
+import { Language } from '@nomicfoundation/slang/language';
+import assert = require('node:assert');
+import { URI } from 'vscode-uri';
+import path from 'path';
+import { findContractDefinition, getNatSpec, getTrimmedRange, isTrivia, slangToVSCodeRange } from './helpers/slang';
+import { findNamespaceIdInNatSpec } from './namespace';
+import { NamespaceFormula } from './namespaceFormulas';
+import { parseTextDocument } from './documentCache';
+import { readSourceUnit } from './imports';
+
+export type StorageItem = {
+	name: string;
+	typeName: string;
+	/**
+	 * The type name with whitespace removed and aliases expanded, used to compare types.
+	 */
+	typeId: string;
+	range: Range;
+}
+
+export type NamespaceLayout = {
+	namespaceId: string;
+	/**
+	 * The formula in the `@custom:storage-location` annotation, which calculates the namespace's storage location
+	 */
+	formula: NamespaceFormula;
+	structName: string;
+	members: StorageItem[];
+	range: Range;
+	/**
+	 * The range of the NatSpec comment containing the `@custom:storage-location` annotation
+	 */
+	annotationRange: Range;
+}
+
+export type StorageLayout = {
+	contractName: string;
+	variables: StorageItem[];
+	namespaces: NamespaceLayout[];
+}
+
+export type StorageLayoutChange = {
+	kind: 'deleted' | 'reordered' | 'typechange' | 'inserted';
+	original?: StorageItem;
+	updated?: StorageItem;
+}
+
+export type LocationConstant = {
+	name: string;
+	value: string;
+	range: Range;
+}
+
+export type ReferenceContract = {
+	textDocument: TextDocument;
+	layout: StorageLayout;
+}
+
+/**
+ * Gets the storage layout of a contract, consisting of its non-constant and non-immutable state variables
+ * and the members of its namespace structs.
+ *
+ * @param contractCursor a cursor pointing to a ContractDefinition
+ */
+export function getStorageLayout(contractCursor: cursor.Cursor, textDocument: TextDocument): StorageLayout {
+	const contractNode = contractCursor.node();
+	assert(contractNode instanceof NonterminalNode);
+	const contractDef = new ContractDefinition(contractNode);
+
+	const layout: StorageLayout = {
+		contractName: contractDef.name.text,
+		variables: [],
+		namespaces: [],
+	};
+
+	const memberCursor = contractCursor.spawn();
+	while (memberCursor.goToNextNonterminalWithKinds([NonterminalKind.StateVariableDefinition, NonterminalKind.StructDefinition])) {
+		const memberNode = memberCursor.node();
+		assert(memberNode instanceof NonterminalNode);
+
+		if (memberNode.kind === NonterminalKind.StateVariableDefinition) {
+			const stateVar = new StateVariableDefinition(memberNode);
+			const isConstantOrImmutable = stateVar.attributes.items.some(attribute => attribute.variant instanceof TerminalNode &&
+				(attribute.variant.kind === TerminalKind.ConstantKeyword || attribute.variant.kind === TerminalKind.ImmutableKeyword));
+			if (!isConstantOrImmutable) {
+				layout.variables.push(toStorageItem(memberCursor, stateVar.name.text, textDocument));
+			}
+		} else {
+			const natSpec = getNatSpec(memberCursor);
+			const annotation = natSpec !== undefined ? findNamespaceIdInNatSpec(natSpec) : undefined;
+			if (annotation !== undefined) {
+				layout.namespaces.push({
+					namespaceId: annotation.namespaceId,
+					formula: annotation.formula,
+					structName: new StructDefinition(memberNode).name.text,
+					members: getStructMembers(memberCursor, textDocument),
+					range: slangToVSCodeRange(textDocument, getTrimmedRange(memberCursor)),
+					annotationRange: slangToVSCodeRange(textDocument, natSpec!.textRange),
+				});
+			}
+		}
+	}
+
+	return layout;
+}
+
+/**
+ * Gets the members of a struct as storage items
+ * @param structCursor a cursor pointing to a StructDefinition
+ */
+export function getStructMembers(structCursor: cursor.Cursor, textDocument: TextDocument): StorageItem[] {
+	const structNode = structCursor.node();
+	assert(structNode instanceof NonterminalNode);
+	const structDef = new StructDefinition(structNode);
+
+	const members: StorageItem[] = [];
+	const memberCursor = structCursor.spawn();
+	let i = 0;
+	while (memberCursor.goToNextNonterminalWithKind(NonterminalKind.StructMember)) {
+		members.push(toStorageItem(memberCursor, structDef.members.items[i].name.text, textDocument));
+		i++;
+	}
+	return members;
+}
+
+/**
+ * @param cursor a cursor pointing to a StateVariableDefinition or StructMember
+ */
+function toStorageItem(cursor: cursor.Cursor, name: string, textDocument: TextDocument): StorageItem {
+	const typeCursor = cursor.spawn();
+	assert(typeCursor.goToNextNonterminalWithKind(NonterminalKind.TypeName));
+	const typeNode = typeCursor.node();
+	assert(typeNode instanceof NonterminalNode);
+
+	return {
+		name,
+		typeName: typeNode.unparse().trim(),
+		typeId: getTypeId(typeCursor),
+		range: slangToVSCodeRange(textDocument, getTrimmedRange(cursor)),
+	};
+}
+
+/**
+ * Gets a canonical representation of a type name, ignoring whitespace and comments and expanding type aliases
+ */
+function getTypeId(typeCursor: cursor.Cursor) {
+	const terminalCursor = typeCursor.spawn();
+	const parts: string[] = [];
+	while (terminalCursor.goToNextTerminal()) {
+		const node = terminalCursor.node();
+		assert(node instanceof TerminalNode);
+		if (!isTrivia(node)) {
+			parts.push(expandTypeAlias(node.text));
+		}
+	}
+	return parts.join('');
+}
+
+function expandTypeAlias(text: string) {
+	switch (text) {
+		case 'uint':
+			return 'uint256';
+		case 'int':
+			return 'int256';
+		case 'byte':
+			return 'bytes1';
+		default:
+			return text;
+	}
+}
+
+/**
+ * Compares two lists of storage items and returns the changes that make the updated list incompatible with the original.
+ * Items appended after the end of the original list are considered compatible.
+ * An item that was moved and also changed type is reported both as reordered and as a type change.
+ */
+export function compareStorageLayouts(original: StorageItem[], updated: StorageItem[]): StorageLayoutChange[] {
+	const operations = getEditOperations(original, updated);
+
+	// inserts after the last original item are appends, which are allowed
+	let appendStart = operations.length;
+	while (appendStart > 0 && operations[appendStart - 1].kind === 'insert') {
+		appendStart--;
+	}
+
+	const changes: StorageLayoutChange[] = [];
+	const deleted = operations.filter(operation => operation.kind === 'delete');
+	const inserted = operations.filter(operation => operation.kind === 'insert');
+
+	for (const [i, operation] of operations.entries()) {
+		if (operation.kind === 'match') {
+			if (operation.original!.typeId !== operation.updated!.typeId) {
+				changes.push({ kind: 'typechange', original: operation.original, updated: operation.updated });
+			}
+		} else if (operation.kind === 'delete') {
+			const moved = inserted.find(insert => insert.updated!.name === operation.original!.name);
+			if (moved !== undefined) {
+				changes.push({ kind: 'reordered', original: operation.original, updated: moved.updated });
+				if (operation.original!.typeId !== moved.updated!.typeId) {
+					changes.push({ kind: 'typechange', original: operation.original, updated: moved.updated });
+				}
+			} else {
+				changes.push({ kind: 'deleted', original: operation.original });
+			}
+		} else {
+			const moved = deleted.some(deletion => deletion.original!.name === operation.updated!.name);
+			if (!moved && i < appendStart) {
+				changes.push({ kind: 'inserted', updated: operation.updated });
+			}
+		}
+	}
+
+	return changes;
+}
+
+type EditOperation = {
+	kind: 'match' | 'insert' | 'delete';
+	original?: StorageItem;
+	updated?: StorageItem;
+}
+
+/**
+ * Gets the shortest sequence of insertions and deletions that transforms the original list into the updated list,
+ * where items with the same name are matched.
+ */
+function getEditOperations(original: StorageItem[], updated: StorageItem[]): EditOperation[] {
+	// distances[i][j] is the edit distance between original[i..] and updated[j..]
+	const distances: number[][] = [];
+	for (let i = original.length; i >= 0; i--) {
+		distances[i] = [];
+		for (let j = updated.length; j >= 0; j--) {
+			if (i === original.length) {
+				distances[i][j] = updated.length - j;
+			} else if (j === updated.length) {
+				distances[i][j] = original.length - i;
+			} else if (original[i].name === updated[j].name) {
+				distances[i][j] = distances[i + 1][j + 1];
+			} else {
+				distances[i][j] = 1 + Math.min(distances[i + 1][j], distances[i][j + 1]);
+			}
+		}
+	}
+
+	const operations: EditOperation[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < original.length || j < updated.length) {
+		if (i < original.length && j < updated.length && original[i].name === updated[j].name) {
+			operations.push({ kind: 'match', original: original[i], updated: updated[j] });
+			i++;
+			j++;
+		} else if (j === updated.length || (i < original.length && distances[i + 1][j] <= distances[i][j + 1])) {
+			operations.push({ kind: 'delete', original: original[i] });
+			i++;
+		} else {
+			operations.push({ kind: 'insert', updated: updated[j] });
+			j++;
+		}
+	}
+	return operations;
+}
+
+/**
+ * Gets the constants in the contract whose names look like ERC-7201 storage locations
+ */
+export function getLocationConstants(contractCursor: cursor.Cursor, textDocument: TextDocument): LocationConstant[] {
+	const constants: LocationConstant[] = [];
+
+	const stateVarCursor = contractCursor.spawn();
+	while (stateVarCursor.goToNextNonterminalWithKind(NonterminalKind.StateVariableDefinition)) {
+		const stateVarNode = stateVarCursor.node();
+		assert(stateVarNode instanceof NonterminalNode);
+		const stateVar = new StateVariableDefinition(stateVarNode);
+
+		if (stateVar.value !== undefined && (stateVar.name.text.match(/_STORAGE_LOCATION$/) || stateVar.name.text.match(/StorageLocation$/))) {
+			constants.push({
+				name: stateVar.name.text,
+				value: stateVar.value.value.cst.unparse().trim(),
+				range: slangToVSCodeRange(textDocument, getTrimmedRange(stateVarCursor)),
+			});
+		}
+	}
+
+	return constants;
+}
+
+/**
+ * Finds the namespace that a location constant belongs to, based on its name or on the contract having a single namespace.
+ */
+export function findNamespaceForConstant(constant: LocationConstant, namespaces: NamespaceLayout[]): NamespaceLayout | undefined {
+	return namespaces.find(namespace => constant.name === `${namespace.structName}Location`) ??
+		(namespaces.length === 1 ? namespaces[0] : undefined);
+}
+
+/**
+ * Finds the location constant that belongs to a namespace
+ */
+export function findLocationConstant(namespace: NamespaceLayout, namespaces: NamespaceLayout[], constants: LocationConstant[]): LocationConstant | undefined {
+	return constants.find(constant => findNamespaceForConstant(constant, namespaces) === namespace);
+}
+
+/**
+ * Gets the reference in the `@custom:oz-upgrades-from <reference>` annotation of a contract, if any.
+ *
+ * @param contractCursor a cursor pointing to a ContractDefinition
+ */
+export function getUpgradesFromReference(contractCursor: cursor.Cursor): string | undefined {
+	return getNatSpec(contractCursor)?.text.match(/@custom:oz-upgrades-from\s+([^\s*]+)/)?.[1];
+}
+
+/**
+ * Parses a `@custom:oz-upgrades-from` reference, which is either a contract name, or a source file path and
+ * contract name in the form `path/to/File.sol:ContractName`.
+ */
+export function parseUpgradesFromReference(reference: string): { referencePath?: string, contractName: string } {
+	const separatorIndex = reference.lastIndexOf(':');
+	return separatorIndex >= 0 ?
+		{ referencePath: reference.substring(0, separatorIndex), contractName: reference.substring(separatorIndex + 1) } :
+		{ contractName: reference };
+}
+
+/**
+ * Whether a file matches the path of a `@custom:oz-upgrades-from` reference, which can be relative to any folder above the file.
+ */
+export function matchesReferencePath(file: string, referencePath: string): boolean {
+	return file.endsWith(path.sep + path.normalize(referencePath));
+}
+
+/**
+ * Finds the contract with the given name in the given files, in order, and gets its storage layout.
+ * The given document is used instead of reading its file from disk.
+ */
+export async function findReferenceContractInFiles(contractName: string, files: string[], textDocument: TextDocument, language: Language): Promise<ReferenceContract | undefined> {
+	const documentPath = URI.parse(textDocument.uri).fsPath;
+
+	for (const file of files) {
+		let candidate: { textDocument: TextDocument, parseOutput: parse_output.ParseOutput } | undefined;
+		if (file === documentPath) {
+			candidate = { textDocument, parseOutput: (await parseTextDocument(textDocument)).parseOutput };
+		} else {
+			candidate = await readSourceUnit(file, language);
+		}
+
+		const contractCursor = candidate !== undefined ? findContractDefinition(candidate.parseOutput, contractName) : undefined;
+		if (candidate !== undefined && contractCursor !== undefined) {
+			return { textDocument: candidate.textDocument, layout: getStorageLayout(contractCursor, candidate.textDocument) };
+		}
+	}
+
+	return undefined;
+}
+
+export type TypeDefinition =
+	{ kind: 'enum' } |
+	{ kind: 'contract' } |
+	{ kind: 'userDefinedValueType', typeId: string } |
+	{ kind: 'struct', members: StorageItem[] };
+
+export type StorageSlot = {
+	item: StorageItem;
+	/**
+	 * The slot of the item, relative to the first slot of the layout
+	 */
+	slot: number;
+	/**
+	 * The byte offset of the item within its slot
+	 */
+	offset: number;
+	/**
+	 * The number of bytes used by the item, or a multiple of 32 if it spans multiple slots
+	 */
+	size: number;
+}
+
+const SLOT_SIZE = 32;
+
+/**
+ * Gets the types defined in a source unit, by name, that are needed to calculate the storage size of variables.
+ */
+export function getTypeDefinitions(parseOutput: parse_output.ParseOutput, textDocument: TextDocument): Map<string, TypeDefinition> {
+	const typeDefinitions = new Map<string, TypeDefinition>();
+
+	const cursor = parseOutput.createTreeCursor();
+	while (cursor.goToNextNonterminalWithKinds([
+		NonterminalKind.ContractDefinition,
+		NonterminalKind.InterfaceDefinition,
+		NonterminalKind.EnumDefinition,
+		NonterminalKind.UserDefinedValueTypeDefinition,
+		NonterminalKind.StructDefinition,
+	])) {
+		const node = cursor.node();
+		assert(node instanceof NonterminalNode);
+
+		switch (node.kind) {
+			case NonterminalKind.ContractDefinition:
+				typeDefinitions.set(new ContractDefinition(node).name.text, { kind: 'contract' });
+				break;
+			case NonterminalKind.InterfaceDefinition:
+				typeDefinitions.set(new InterfaceDefinition(node).name.text, { kind: 'contract' });
+				break;
+			case NonterminalKind.EnumDefinition:
+				typeDefinitions.set(new EnumDefinition(node).name.text, { kind: 'enum' });
+				break;
+			case NonterminalKind.UserDefinedValueTypeDefinition: {
+				const definition = new UserDefinedValueTypeDefinition(node);
+				typeDefinitions.set(definition.name.text, { kind: 'userDefinedValueType', typeId: definition.valueType.cst.unparse().replace(/\s+/g, '') });
+				break;
+			}
+			case NonterminalKind.StructDefinition:
+				typeDefinitions.set(new StructDefinition(node).name.text, { kind: 'struct', members: getStructMembers(cursor, textDocument) });
+				break;
+		}
+	}
+
+	return typeDefinitions;
+}
+
+/**
+ * Assigns storage slots and offsets to the given items following Solidity's storage layout rules,
+ * where consecutive items that fit in a single slot are packed together.
+ *
+ * Types that cannot be resolved from the given type definitions are assumed to use a full slot.
+ *
+ * @returns the slot of each item and the total number of slots used
+ */
+export function getStorageSlots(items: StorageItem[], typeDefinitions: Map<string, TypeDefinition>): { slots: StorageSlot[], totalSlots: number } {
+	const slots: StorageSlot[] = [];
+	let slot = 0;
+	let offset = 0;
+
+	for (const item of items) {
+		const size = getStorageSize(item.typeId, typeDefinitions);
+		const startsNewSlot = size >= SLOT_SIZE || isAlwaysSlotAligned(item.typeId, typeDefinitions) || offset + size > SLOT_SIZE;
+		if (startsNewSlot && offset > 0) {
+			slot++;
+			offset = 0;
+		}
+
+		slots.push({ item, slot, offset, size });
+
+		if (size >= SLOT_SIZE || isAlwaysSlotAligned(item.typeId, typeDefinitions)) {
+			// the next item starts in a new slot
+			slot += Math.ceil(size / SLOT_SIZE);
+			offset = 0;
+		} else {
+			offset += size;
+		}
+	}
+
+	return { slots, totalSlots: offset > 0 ? slot + 1 : slot };
+}
+
+/**
+ * Structs and static arrays always start a new slot, and the item that follows them also starts a new slot.
+ */
+function isAlwaysSlotAligned(typeId: string, typeDefinitions: Map<string, TypeDefinition>) {
+	return typeId.endsWith(']') || getTypeDefinition(typeId, typeDefinitions)?.kind === 'struct';
+}
+
+function getTypeDefinition(typeId: string, typeDefinitions: Map<string, TypeDefinition>) {
+	// for qualified names such as `Library.Type`, use the last part of the name
+	return typeDefinitions.get(typeId.substring(typeId.lastIndexOf('.') + 1));
+}
+
+/**
+ * Gets the number of bytes used in storage by a type.
+ * Types that use one or more full slots return a multiple of 32.
+ */
+function getStorageSize(typeId: string, typeDefinitions: Map<string, TypeDefinition>): number {
+	if (typeId.startsWith('mapping(') || typeId === 'string' || typeId === 'bytes') {
+		return SLOT_SIZE;
+	}
+	if (typeId === 'bool') {
+		return 1;
+	}
+	if (typeId === 'address' || typeId === 'addresspayable') {
+		return 20;
+	}
+	if (typeId.startsWith('function(')) {
+		return typeId.includes('external') ? 24 : 8;
+	}
+
+	const integerMatch = typeId.match(/^u?int(\d+)$/);
+	if (integerMatch) {
+		return Number(integerMatch[1]) / 8;
+	}
+	const fixedBytesMatch = typeId.match(/^bytes(\d+)$/);
+	if (fixedBytesMatch) {
+		return Number(fixedBytesMatch[1]);
+	}
+
+	const arrayMatch = typeId.match(/^(.*)\[([^\]]*)\]$/);
+	if (arrayMatch) {
+		const length = Number(arrayMatch[2]);
+		if (arrayMatch[2] === '' || !Number.isInteger(length)) {
+			// dynamic arrays use a single slot for their length, and static arrays with a non-literal length are not resolved
+			return SLOT_SIZE;
+		}
+
+		const elementSize = getStorageSize(arrayMatch[1], typeDefinitions);
+		if (elementSize >= SLOT_SIZE || isAlwaysSlotAligned(arrayMatch[1], typeDefinitions)) {
+			return length * Math.ceil(elementSize / SLOT_SIZE) * SLOT_SIZE;
+		}
+		const elementsPerSlot = Math.floor(SLOT_SIZE / elementSize);
+		return Math.max(1, Math.ceil(length / elementsPerSlot)) * SLOT_SIZE;
+	}
+
+	const typeDefinition = getTypeDefinition(typeId, typeDefinitions);
+	switch (typeDefinition?.kind) {
+		case 'enum':
+			return 1;
+		case 'contract':
+			return 20;
+		case 'userDefinedValueType':
+			return getStorageSize(typeDefinition.typeId, typeDefinitions);
+		case 'struct': {
+			// structs cannot contain themselves except through mappings or dynamic arrays, which are not expanded
+			const { totalSlots } = getStorageSlots(typeDefinition.members, typeDefinitions);
+			return Math.max(1, totalSlots) * SLOT_SIZE;
+		}
+		default:
+			return SLOT_SIZE;
+	}
+}
@@ -1,5 +1,7 @@
-import { keccak256 } from 'ethereumjs-util';
 import { Range } from 'vscode-languageserver-textdocument';
+import { TerminalKind } from '@nomicfoundation/slang/kinds';
+import assert = require('node:assert');
+import { ERC7201_FORMULA, getNamespaceFormula, NamespaceFormula } from './namespaceFormulas';
 
 export type Namespace = {
 	contractName: string;
@@ -12,6 +14,15 @@ export type Variable = {
 	name: string;
 	range: Range;
 	publicGetter?: PublicGetter;
+	/**
+	 * The expression that the variable was initialized with in its declaration, if any
+	 */
+	initialValue?: string;
+}
+
+export type NamespaceableContract = {
+	name: string;
+	variables: Variable[];
 }
 
 export type PublicGetter = {
@@ -23,32 +34,112 @@ export function getNamespaceId(namespacePrefix: string | undefined, contractName
 }
 
 /**
- * Prints the reference ERC7201 template for a given namespace
+ * Finds the formula and namespace id in a `@custom:storage-location <formula>:<id>` annotation in a NatSpec comment,
+ * such as `@custom:storage-location erc7201:<id>`
+ * @returns the formula, the namespace id and its offset within the NatSpec text, or undefined if the NatSpec does not contain
+ * the annotation or its formula is not registered
+ */
+export function findNamespaceIdInNatSpec(natSpec: { text: string, kind: TerminalKind }): { formula: NamespaceFormula, namespaceId: string, offset: number } | undefined {
+	let regex: RegExp;
+	assert(natSpec.kind === TerminalKind.SingleLineNatSpecComment || natSpec.kind === TerminalKind.MultiLineNatSpecComment);
+
+	if (natSpec.kind === TerminalKind.SingleLineNatSpecComment) {
+		regex = /@custom:storage-location ([\w-]+):(\S+)/;
+	} else {
+		regex = /@custom:storage-location ([\w-]+):(\S+)(?=\s|\*\/)/;
+	}
+
+	const match = natSpec.text.match(regex);
+	if (match === null || match.index === undefined) {
+		return undefined;
+	}
+	const formula = getNamespaceFormula(match[1]);
+	if (formula === undefined) {
+		return undefined;
+	}
+	return { formula, namespaceId: match[2], offset: match.index + match[0].length - match[2].length };
+}
+
+/**
+ * Finds the namespace id in a comment with the formula used to calculate a storage location, such as
+ * `// keccak256(abi.encode(uint256(keccak256("<id>")) - 1)) & ~bytes32(uint256(0xff))` for ERC-7201.
+ * Equivalent spellings of the formula are accepted, with any spacing, extra casts, or split over multiple lines.
+ * @returns the namespace id and its offset within the comment text, or undefined if the comment does not contain the formula
+ */
+export function findNamespaceIdInHashComment(text: string, formula: NamespaceFormula = ERC7201_FORMULA): { namespaceId: string, offset: number } | undefined {
+	const { normalized, offsets } = normalizeComment(text);
+	const match = normalized.match(formula.commentPattern);
+	if (match === null || match.index === undefined) {
+		return undefined;
+	}
+
+	const idStart = match.index + match[0].indexOf('"') + 1;
+	const idEnd = match.index + match[0].indexOf('"', idStart - match.index);
+	return { namespaceId: normalized.substring(idStart, idEnd), offset: offsets[idStart] };
+}
+
+/**
+ * Removes whitespace and comment delimiters, including the `*` at the start of lines in multi-line comments,
+ * from everything but string literals in a comment.
+ * @returns the normalized text, and the offset in the original text of each of its characters
+ */
+function normalizeComment(text: string): { normalized: string, offsets: number[] } {
+	let normalized = '';
+	const offsets: number[] = [];
+
+	let inString = false;
+	let atLineStart = true;
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (!inString) {
+			if (/\s/.test(char)) {
+				atLineStart ||= char === '\n';
+				continue;
+			}
+			if (text.startsWith('//', i) || text.startsWith('/*', i) || text.startsWith('*/', i)) {
+				i++;
+				continue;
+			}
+			if (char === '*' && atLineStart) {
+				continue;
+			}
+		}
+
+		if (char === '"') {
+			inString = !inString;
+		}
+		atLineStart = false;
+		normalized += char;
+		offsets.push(i);
+	}
+
+	return { normalized, offsets };
+}
+
+/**
+ * Prints the reference template for a given namespace, with its storage location calculated using the given formula
  */
-export function printNamespaceTemplate(namespace: Namespace, indent = "    ") {
+export function printNamespaceTemplate(namespace: Namespace, indent: string, formula: NamespaceFormula = ERC7201_FORMULA) {
 	const namespaceId = getNamespaceId(namespace.prefix, namespace.contractName);
 	const structName = toStorageStructName(namespace.contractName);
 	const locationName = `${structName}Location`;
-	const rootLocation = calculateERC7201StorageLocation(namespaceId);
 
-	const publicGetters = `${namespace.variables?.map(variable => variable.publicGetter ? printPublicGetter(variable.name, variable.publicGetter.typeName, structName) : undefined).join(`\n${indent}`)}`;
+	const publicGetters = namespace.variables?.filter(variable => variable.publicGetter).map(variable => `\n\n${indent}${printPublicGetter(variable.name, variable.publicGetter!.typeName, structName, indent).trimEnd()}`).join('') ?? '';
+
+	const structMembers = namespace.variables?.map(variable => `${indent}${indent}${variable.content}\n`).join('') ?? '';
 
 	const namespaceStructContent = `\
-/// @custom:storage-location erc7201:${namespaceId}
+/// @custom:storage-location ${formula.name}:${namespaceId}
 ${indent}struct ${structName} {
-${namespace.variables?.map(variable => `${indent}${indent}${variable.content}`).join(`\n`)}
-${indent}}
+${structMembers}${indent}}
 
-${indent}// keccak256(abi.encode(uint256(keccak256("${namespaceId}")) - 1)) & ~bytes32(uint256(0xff))
-${indent}bytes32 private constant ${locationName} = ${rootLocation};
+${indent}${printStorageLocationConstant(namespaceId, locationName, indent, formula)}
 
 ${indent}function _get${structName}() private pure returns (${structName} storage $) {
 ${indent}${indent}assembly {
 ${indent}${indent}${indent}$.slot := ${locationName}
 ${indent}${indent}}
-${indent}}
-${publicGetters}
-`;
+${indent}}${publicGetters}`;
 
 	return namespaceStructContent;
 }
@@ -57,7 +148,16 @@ export function toStorageStructName(contractName: string) {
 	return `${contractName}Storage`;
 }
 
-export function printPublicGetter(name: string, typeName: string, storageStructName: string, indent = "    ") {
+/**
+ * Prints the constant for the storage location of a namespace, preceded by a comment with the formula used to calculate it
+ */
+export function printStorageLocationConstant(namespaceId: string, locationName: string, indent: string, formula: NamespaceFormula = ERC7201_FORMULA) {
+	return `\
+// ${formula.printFormula(namespaceId)}
+${indent}bytes32 private constant ${locationName} = ${formula.calculateLocation(namespaceId)};`;
+}
+
+export function printPublicGetter(name: string, typeName: string, storageStructName: string, indent: string) {
 	return `\
 function ${name}() public view returns (${typeName}) {
 ${indent}${indent}${storageStructName} storage $ = _get${storageStructName}();
@@ -65,21 +165,3 @@ ${indent}${indent}return $.${name};
 ${indent}}
 `;
 };
-
-/**
- * Returns the ERC7201 storage location hash for a given namespace id
- */
-export function calculateERC7201StorageLocation(id: string): string {
-	const firstHash = keccak256(Buffer.from(id));
-	const minusOne = BigInt('0x' + firstHash.toString('hex')) - 1n;
-	const minusOneBuffer = Buffer.from(minusOne.toString(16), 'hex');
-
-	const secondHash = keccak256(minusOneBuffer);
-	
-	const mask = BigInt('0xff');
-	const masked = BigInt('0x' + secondHash.toString('hex')) & ~mask;
-
-	const padded = masked.toString(16).padStart(64, '0');
-
-	return '0x' + padded;
-}
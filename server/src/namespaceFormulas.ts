@@ -0,0 +1,103 @@
+import { keccak256 } from 'ethereumjs-util';
+
+/**
+ * A formula that calculates the storage location of a namespace from its id, as named in
+ * `@custom:storage-location <formula>:<id>` annotations.
+ */
+export type NamespaceFormula = {
+	/**
+	 * The name used in `@custom:storage-location` annotations, such as `erc7201`
+	 */
+	name: string;
+	/**
+	 * The name shown in hovers, code lenses and diagnostics, such as `ERC-7201`
+	 */
+	label: string;
+	/**
+	 * Calculates the storage location for a namespace id, as a lowercase 32-byte hex string with the `0x` prefix
+	 */
+	calculateLocation: (namespaceId: string) => string;
+	/**
+	 * Prints the formula for a namespace id, for the comment above a storage location constant
+	 */
+	printFormula: (namespaceId: string) => string;
+	/**
+	 * Matches the formula in a comment after all whitespace and comment delimiters are removed.
+	 * The namespace id is the first string literal in the match.
+	 */
+	commentPattern: RegExp;
+}
+
+/**
+ * Matches an expression with up to two casts around it, such as `bytes32(uint256(...))`, which do not change the calculated value.
+ * The parentheses of the casts must be balanced.
+ */
+function withCasts(expression: string): string {
+	const cast = '(?:bytes32|uint256)\\(';
+	return `(?:${cast}${cast}${expression}\\)\\)|${cast}${expression}\\)|${expression})`;
+}
+
+/**
+ * Matches a namespace id string literal, optionally converted with `bytes(...)`.
+ */
+const NAMESPACE_ID = '(?:bytes\\("[^"]*"\\)|"[^"]*")';
+
+export const ERC7201_FORMULA: NamespaceFormula = {
+	name: 'erc7201',
+	label: 'ERC-7201',
+	calculateLocation: calculateERC7201StorageLocation,
+	printFormula: namespaceId => `keccak256(abi.encode(uint256(keccak256("${namespaceId}")) - 1)) & ~bytes32(uint256(0xff))`,
+	// not inside unbalanced parentheses, such as a cast that is not closed
+	commentPattern: new RegExp(
+		`(?<!\\()${withCasts(`keccak256\\(abi\\.encode\\(uint256\\(keccak256\\(${NAMESPACE_ID}\\)\\)-1\\)\\)`)}&~${withCasts('0xff(?![0-9a-fA-F])')}(?!\\))`
+	),
+};
+
+/**
+ * The hash of the namespace id, as used by some contracts that predate ERC-7201
+ */
+export const KECCAK256_FORMULA: NamespaceFormula = {
+	name: 'keccak256',
+	label: 'keccak256',
+	calculateLocation: namespaceId => '0x' + keccak256(Buffer.from(namespaceId)).toString('hex'),
+	printFormula: namespaceId => `keccak256("${namespaceId}")`,
+	// not part of a larger formula, such as the inner hash of ERC-7201 or `keccak256("<id>") - 1`
+	commentPattern: new RegExp(`(?<![\\w.(])${withCasts(`keccak256\\(${NAMESPACE_ID}\\)`)}(?![)\\-&])`),
+};
+
+const formulas: Map<string, NamespaceFormula> = new Map();
+
+/**
+ * Registers a formula, so that namespaces annotated with its name are validated, or replaces the formula with the same name.
+ */
+export function registerNamespaceFormula(formula: NamespaceFormula) {
+	formulas.set(formula.name, formula);
+}
+
+/**
+ * Gets the registered formula with the given name, or undefined if there is none
+ */
+export function getNamespaceFormula(name: string): NamespaceFormula | undefined {
+	return formulas.get(name);
+}
+
+registerNamespaceFormula(ERC7201_FORMULA);
+registerNamespaceFormula(KECCAK256_FORMULA);
+
+/**
+ * Returns the ERC7201 storage location hash for a given namespace id
+ */
+export function calculateERC7201StorageLocation(id: string): string {
+	const firstHash = keccak256(Buffer.from(id));
+	const minusOne = BigInt('0x' + firstHash.toString('hex')) - 1n;
+	const minusOneBuffer = Buffer.from(minusOne.toString(16), 'hex');
+
+	const secondHash = keccak256(minusOneBuffer);
+
+	const mask = BigInt('0xff');
+	const masked = BigInt('0x' + secondHash.toString('hex')) & ~mask;
+
+	const padded = masked.toString(16).padStart(64, '0');
+
+	return '0x' + padded;
+}
@@ -0,0 +1,251 @@
+import { Range, TextDocument } from 'vscode-languageserver-textdocument';
+import { NonterminalKind } from '@nomicfoundation/slang/kinds';
+import { NonterminalNode } from '@nomicfoundation/slang/cst';
+import { ContractDefinition } from '@nomicfoundation/slang/ast';
+import { parse_output } from '@nomicfoundation/slang';
+import { Language } from '@nomicfoundation/slang/language';
+import { workspaceFolders } from './environment';
+import assert = require('node:assert');
+import { URI } from 'vscode-uri';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { findReferenceContractInFiles, getStorageLayout, getUpgradesFromReference, matchesReferencePath, parseUpgradesFromReference, ReferenceContract } from './layout';
+import { getLanguage, inferSolidityVersion } from './solidityVersion';
+import { findSolidityFiles } from './workspace';
+
+export type IndexedNamespace = {
+	uri: string;
+	contractName: string;
+	namespaceId: string;
+	location: string;
+	/**
+	 * The range of the struct's `@custom:storage-location` annotation
+	 */
+	range: Range;
+	/**
+	 * The reference in the contract's `@custom:oz-upgrades-from` annotation, if any
+	 */
+	upgradesFrom?: string;
+}
+
+export type IndexedContract = {
+	uri: string;
+	contractName: string;
+	/**
+	 * The reference in the contract's `@custom:oz-upgrades-from` annotation, if any
+	 */
+	upgradesFrom?: string;
+}
+
+/**
+ * Namespaces of all Solidity files in the workspace, by document uri
+ */
+const namespaceIndex: Map<string, IndexedNamespace[]> = new Map();
+
+/**
+ * Contracts of all Solidity files in the workspace, by document uri
+ */
+const contractIndex: Map<string, IndexedContract[]> = new Map();
+
+let onDidChangeIndex: (() => void) | undefined = undefined;
+
+/**
+ * Sets a listener that is called whenever the namespaces of any document in the index change
+ */
+export function setNamespaceIndexChangeListener(listener: () => void) {
+	onDidChangeIndex = listener;
+}
+
+/**
+ * Indexes the contracts and namespaces of the Solidity files in the workspace folders, skipping those outside the `src` folder of Foundry projects,
+ * and removes the files that are no longer found, such as after the `src` folder changes.
+ */
+export async function indexWorkspaceNamespaces() {
+	const uris = new Set<string>();
+	for (const file of await findSolidityFiles(workspaceFolders, true)) {
+		uris.add(URI.file(file).toString());
+		await indexFile(file, false);
+	}
+	for (const uri of [...contractIndex.keys(), ...namespaceIndex.keys()]) {
+		if (!uris.has(uri)) {
+			contractIndex.delete(uri);
+			namespaceIndex.delete(uri);
+		}
+	}
+	onDidChangeIndex?.();
+}
+
+/**
+ * Indexes the contracts and namespaces of a Solidity file from disk, or removes it from the index if it no longer exists
+ */
+export async function indexFile(file: string, notify = true) {
+	const uri = URI.file(file).toString();
+
+	let text: string;
+	try {
+		text = await fs.readFile(file, 'utf8');
+	} catch (e: any) {
+		removeFromNamespaceIndex(uri);
+		return;
+	}
+
+	const textDocument = TextDocument.create(uri, 'solidity', 0, text);
+	let parseOutput: parse_output.ParseOutput;
+	try {
+		const language = getLanguage(await inferSolidityVersion(textDocument, workspaceFolders));
+		parseOutput = language.parse(NonterminalKind.SourceUnit, text);
+	} catch (e: any) {
+		// such as an unsupported Solidity version, which is reported when the file is validated
+		console.log(`Could not index ${file}: ${e}`);
+		removeFromNamespaceIndex(uri);
+		return;
+	}
+	setIndexedDocument(uri, getContractsInDocument(parseOutput, textDocument), getNamespacesInDocument(parseOutput, textDocument), notify);
+}
+
+/**
+ * Updates the index with the contracts and namespaces of a parsed document
+ */
+export function indexDocument(parseOutput: parse_output.ParseOutput, textDocument: TextDocument) {
+	setIndexedDocument(textDocument.uri, getContractsInDocument(parseOutput, textDocument), getNamespacesInDocument(parseOutput, textDocument), true);
+}
+
+export function removeFromNamespaceIndex(uri: string) {
+	const removedContracts = contractIndex.delete(uri);
+	if (namespaceIndex.delete(uri) || removedContracts) {
+		onDidChangeIndex?.();
+	}
+}
+
+/**
+ * Finds the contract referenced by a `@custom:oz-upgrades-from <reference>` annotation in the given document.
+ *
+ * The document itself is searched first, followed by the indexed files that define a contract with the referenced name.
+ * If the reference includes a path, only files with that path are searched, including the path relative to the document.
+ */
+export async function findReferenceContract(reference: string, textDocument: TextDocument, language: Language): Promise<ReferenceContract | undefined> {
+	const { referencePath, contractName } = parseUpgradesFromReference(reference);
+	const documentPath = URI.parse(textDocument.uri).fsPath;
+
+	const indexedFiles = findIndexedContracts(contractName).map(contract => URI.parse(contract.uri).fsPath);
+	let files: string[];
+	if (referencePath !== undefined) {
+		files = indexedFiles.filter(file => matchesReferencePath(file, referencePath));
+		const relativeFile = path.resolve(path.dirname(documentPath), referencePath);
+		if (!files.includes(relativeFile) && await fs.access(relativeFile).then(() => true, () => false)) {
+			files.push(relativeFile);
+		}
+	} else {
+		files = [documentPath, ...indexedFiles.filter(file => file !== documentPath)];
+	}
+
+	return findReferenceContractInFiles(contractName, files, textDocument, language);
+}
+
+function findIndexedContracts(contractName: string): IndexedContract[] {
+	return [...contractIndex.values()].flat().filter(contract => contract.contractName === contractName);
+}
+
+/**
+ * Gets the namespaces from other contracts that have the same id or storage location as the given namespace.
+ * Namespaces in the namespace's own document are taken from the given document namespaces instead of the index,
+ * since the index may not reflect the document's current content.
+ *
+ * Contracts that are upgrades of one another through `@custom:oz-upgrades-from` references, directly or transitively,
+ * are expected to keep the same namespaces and do not collide.
+ */
+export function findNamespaceCollisions(namespace: IndexedNamespace, documentNamespaces: IndexedNamespace[]): IndexedNamespace[] {
+	const collisions: IndexedNamespace[] = [];
+	const otherDocumentNamespaces = [...namespaceIndex.entries()].filter(([uri]) => uri !== namespace.uri).map(([, namespaces]) => namespaces);
+	for (const namespaces of [documentNamespaces, ...otherDocumentNamespaces]) {
+		for (const other of namespaces) {
+			const isSameContract = other.uri === namespace.uri && other.contractName === namespace.contractName;
+			if (!isSameContract && (other.namespaceId === namespace.namespaceId || other.location === namespace.location) && !isUpgradeOf(namespace, other) && !isUpgradeOf(other, namespace)) {
+				collisions.push(other);
+			}
+		}
+	}
+	return collisions;
+}
+
+/**
+ * Whether the contract is an upgrade of the given reference contract, by following the `@custom:oz-upgrades-from`
+ * references from the contract through the indexed contracts.
+ */
+function isUpgradeOf(contract: IndexedContract, reference: IndexedContract): boolean {
+	const visited = new Set<IndexedContract>();
+	let current: IndexedContract | undefined = contract;
+	while (current?.upgradesFrom !== undefined) {
+		const { referencePath, contractName } = parseUpgradesFromReference(current.upgradesFrom);
+		const fromUri: string = current.uri;
+		const candidates = findIndexedContracts(contractName).filter(candidate => referencePath === undefined || matchesReferencePath(URI.parse(candidate.uri).fsPath, referencePath));
+		if (candidates.some(candidate => candidate.uri === reference.uri && candidate.contractName === reference.contractName)) {
+			return true;
+		}
+
+		// a reference without a path prefers the contract in the same file, as when validating the storage layout
+		current = candidates.find(candidate => candidate.uri === fromUri) ?? candidates[0];
+		if (current === undefined || visited.has(current)) {
+			return false;
+		}
+		visited.add(current);
+	}
+	return false;
+}
+
+export function getNamespacesInDocument(parseOutput: parse_output.ParseOutput, textDocument: TextDocument): IndexedNamespace[] {
+	const namespaces: IndexedNamespace[] = [];
+
+	const cursor = parseOutput.createTreeCursor();
+	while (cursor.goToNextNonterminalWithKind(NonterminalKind.ContractDefinition)) {
+		const contractNode = cursor.node();
+		assert(contractNode instanceof NonterminalNode);
+		const contractName = new ContractDefinition(contractNode).name.text;
+		const upgradesFrom = getUpgradesFromReference(cursor);
+
+		for (const namespace of getStorageLayout(cursor, textDocument).namespaces) {
+			namespaces.push({
+				uri: textDocument.uri,
+				contractName,
+				namespaceId: namespace.namespaceId,
+				location: namespace.formula.calculateLocation(namespace.namespaceId),
+				range: namespace.annotationRange,
+				upgradesFrom,
+			});
+		}
+	}
+
+	return namespaces;
+}
+
+function getContractsInDocument(parseOutput: parse_output.ParseOutput, textDocument: TextDocument): IndexedContract[] {
+	const contracts: IndexedContract[] = [];
+
+	const cursor = parseOutput.createTreeCursor();
+	while (cursor.goToNextNonterminalWithKind(NonterminalKind.ContractDefinition)) {
+		const contractNode = cursor.node();
+		assert(contractNode instanceof NonterminalNode);
+		contracts.push({
+			uri: textDocument.uri,
+			contractName: new ContractDefinition(contractNode).name.text,
+			upgradesFrom: getUpgradesFromReference(cursor),
+		});
+	}
+
+	return contracts;
+}
+
+function setIndexedDocument(uri: string, contracts: IndexedContract[], namespaces: IndexedNamespace[], notify: boolean) {
+	const previousContracts = contractIndex.get(uri) ?? [];
+	const previousNamespaces = namespaceIndex.get(uri) ?? [];
+	contractIndex.set(uri, contracts);
+	namespaceIndex.set(uri, namespaces);
+
+	const changed = previousContracts.length !== contracts.length ||
+		previousContracts.some((contract, i) => contract.contractName !== contracts[i].contractName || contract.upgradesFrom !== contracts[i].upgradesFrom) ||
+		previousNamespaces.length !== namespaces.length ||
+		previousNamespaces.some((namespace, i) => namespace.contractName !== namespaces[i].contractName || namespace.namespaceId !== namespaces[i].namespaceId);
+	if (changed && notify) {
+		onDidChangeIndex?.();
+	}
+}
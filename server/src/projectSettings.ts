@@ -0,0 +1,68 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import { OpenZeppelinLSSettings } from './settings';
+
+/**
+ * A settings file in the project root, so that settings such as the namespace prefix can be committed and shared.
+ */
+export const PROJECT_SETTINGS_FILE = '.openzeppelin-ls.json';
+
+/**
+ * Reads `.openzeppelin-ls.json` in the project root, which has the same properties as the `openzeppelinLS` settings, for example:
+ * ```json
+ * {
+ *   "namespacePrefix": "acme.token",
+ *   "namespaceFormula": "erc7201",
+ *   "solidityVersion": "0.8.24",
+ *   "diagnostics": { "VariableCanBeNamespaced": "off" },
+ *   "exclude": ["test/**"],
+ *   "upgradeableMarkers": ["MyInitializable", "@custom:proxied"]
+ * }
+ * ```
+ * Properties that are unknown or have the wrong type are ignored.
+ *
+ * @returns The settings, or undefined if the file does not exist or cannot be parsed
+ */
+export async function readProjectSettings(root: string): Promise<OpenZeppelinLSSettings | undefined> {
+	const settingsPath = path.join(root, PROJECT_SETTINGS_FILE);
+
+	let text: string;
+	try {
+		text = await fs.readFile(settingsPath, 'utf8');
+	} catch (e: any) {
+		return undefined;
+	}
+
+	let json: any;
+	try {
+		json = JSON.parse(text);
+	} catch (e: any) {
+		console.error(`Could not parse ${settingsPath}: ${e}`);
+		return undefined;
+	}
+	if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+		console.error(`Could not parse ${settingsPath}: expected an object`);
+		return undefined;
+	}
+
+	return {
+		solidityVersion: typeof json.solidityVersion === 'string' ? json.solidityVersion : undefined,
+		namespacePrefix: typeof json.namespacePrefix === 'string' ? json.namespacePrefix : undefined,
+		namespaceFormula: typeof json.namespaceFormula === 'string' ? json.namespaceFormula : undefined,
+		diagnostics: getDiagnosticSeverities(json.diagnostics),
+		include: getStrings(json.include),
+		exclude: getStrings(json.exclude),
+		upgradeableMarkers: getStrings(json.upgradeableMarkers),
+	};
+}
+
+function getDiagnosticSeverities(value: unknown): OpenZeppelinLSSettings['diagnostics'] {
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+		return undefined;
+	}
+	return Object.fromEntries(Object.entries(value).filter(([, severity]) => typeof severity === 'string'));
+}
+
+function getStrings(value: unknown): string[] | undefined {
+	return Array.isArray(value) ? value.filter(item => typeof item === 'string') : undefined;
+}
@@ -1,31 +1,36 @@
 import { Diagnostic, CodeActionKind, CodeAction, WorkspaceEdit } from 'vscode-languageserver/node';
 import {
+	Range,
 	TextDocument,
 	TextEdit
 } from 'vscode-languageserver-textdocument';
 import { NonterminalKind, TerminalKind } from "@nomicfoundation/slang/kinds";
 import { Namespace, Variable, printNamespaceTemplate, getNamespaceId, printPublicGetter, toStorageStructName } from './namespace';
+import { NamespaceFormula } from './namespaceFormulas';
 import { Language } from '@nomicfoundation/slang/language';
 import assert = require('node:assert');
 import { NonterminalNode, TerminalNode } from '@nomicfoundation/slang/cst';
-import { ContractDefinition } from '@nomicfoundation/slang/ast';
-import { cursor, text_index } from '@nomicfoundation/slang';
-import { slangToVSCodeRange } from './helpers/slang';
-import { inferSolidityVersion } from './solidityVersion';
-import { workspaceFolders } from './server';
+import { AssignmentExpression, ConstructorDefinition, ContractDefinition, ExpressionStatement, FunctionDefinition, InheritanceType, ModifierInvocation, Parameter, StateVariableDefinition, Statement, TupleExpression } from '@nomicfoundation/slang/ast';
+import { cursor, parse_output, text_index } from '@nomicfoundation/slang';
+import { findContractDefinition, getTrimmedRange, slangToVSCodeRange } from './helpers/slang';
+import { getStorageLayout } from './layout';
+import { parseTextDocument } from './documentCache';
+import { getImportedSourceUnits, isContractImported } from './imports';
+import { workspaceFolders } from './environment';
+import { getLinearizedContracts } from './inheritance';
 
 /**
  * Gets a quick fix for moving all variables into a namespace.
  */
-export async function getMoveAllVariablesToNamespaceQuickFix(fixesDiagnostics: Diagnostic[], title: string, prefix: string, contractName: string, variables: Variable[], textDocument: TextDocument): Promise<CodeAction | undefined> {
+export async function getMoveAllVariablesToNamespaceQuickFix(fixesDiagnostics: Diagnostic[], title: string, prefix: string, formula: NamespaceFormula, contractName: string, variables: Variable[], textDocument: TextDocument, indent: string): Promise<CodeAction | undefined> {
 	let namespaceStructEndRange: text_index.TextRange | undefined = undefined;
 
-	const language = new Language(await inferSolidityVersion(textDocument, workspaceFolders));
-	const parseOutput = language.parse(NonterminalKind.SourceUnit, textDocument.getText());
+	const { language, parseOutput } = await parseTextDocument(textDocument);
 
 	const cursor = parseOutput.createTreeCursor();
 
 	let contractCursor;
+	let addsInitializer = false;
 
 	const edits: TextEdit[] = [];
 
@@ -48,8 +53,16 @@ export async function getMoveAllVariablesToNamespaceQuickFix(fixesDiagnostics: D
 			// skip if its not the contract we are looking for
 			continue;
 		} else {
-			namespaceStructEndRange = getNamespaceStructEndRange(contractCursor, prefix, contractName);
-			editNamespaceVariablesInFunctions(contractCursor, contractName, variables, textDocument, edits);
+			namespaceStructEndRange = getNamespaceStructEndRange(contractCursor, prefix, formula, contractName);
+
+			const initialValueAssignments = getInitialValueAssignments(variables, language);
+			const initializerBlockCursor = getInitializerBlockCursor(contractCursor, contractName);
+			editNamespaceVariablesInFunctions(contractCursor, contractName, variables, textDocument, edits, indent, initializerBlockCursor, initialValueAssignments);
+
+			if (initialValueAssignments.length > 0 && initializerBlockCursor === undefined) {
+				editNewInitializer(edits, contractCursor, contractDef.abstractKeyword !== undefined, initialValueAssignments);
+				addsInitializer = true;
+			}
 
 			// only process the first contract that matches the contractName
 			break;
@@ -66,6 +79,11 @@ export async function getMoveAllVariablesToNamespaceQuickFix(fixesDiagnostics: D
 		editExistingNamespace(edits, namespaceStructEndRange);
 	}
 
+	// the new initializer uses the `initializer` or `onlyInitializing` modifier
+	if (addsInitializer && contractCursor !== undefined && !(await getAncestors(contractCursor, textDocument, parseOutput, language)).inheritsInitializable) {
+		edits.push(...await getAddInitializableBaseEdits(contractCursor, textDocument, parseOutput, language));
+	}
+
 	let workspaceEdit: WorkspaceEdit = {
 		changes: { [textDocument.uri]: [...edits] }
 	};
@@ -88,20 +106,51 @@ export async function getMoveAllVariablesToNamespaceQuickFix(fixesDiagnostics: D
 		// for a new namespace, replace the first variable with the namespace (including public getter functions), then delete the rest of the variables
 		let insertVariableTextEdit: TextEdit = {
 			range: variables[0].range,
-			newText: printNamespaceTemplate(namespace),
+			newText: printNamespaceTemplate(namespace, indent, formula),
 		};
 		edits.push(insertVariableTextEdit);
 
 		for (const variable of variables.slice(1)) {
 			let deleteVariableTextEdit: TextEdit = {
-				range: variable.range,
+				range: getWholeLinesRange(textDocument, variable.range),
 				newText: ""
 			};
 			edits.push(deleteVariableTextEdit);
 		}
 	}
 
-	function editExistingNamespace(edits: TextEdit[], structEndRange: text_index.TextRange, indent = "    ") {
+	function editNewInitializer(edits: TextEdit[], contractCursor: cursor.Cursor, isAbstract: boolean, statements: string[]) {
+		const structName = toStorageStructName(contractName);
+		const body = `\
+${indent}${indent}${structName} storage $ = _get${structName}();
+${statements.map(statement => `${indent}${indent}${statement}`).join('\n')}
+${indent}}`;
+
+		let initializerText: string;
+		if (isAbstract) {
+			initializerText = `\
+${indent}function __${contractName}_init() internal onlyInitializing {
+${indent}${indent}__${contractName}_init_unchained();
+${indent}}
+
+${indent}function __${contractName}_init_unchained() internal onlyInitializing {
+${body}`;
+		} else {
+			initializerText = `\
+${indent}function initialize() public initializer {
+${body}`;
+		}
+
+		// insert the initializer before the closing brace of the contract
+		const contractEnd = getTrimmedRange(contractCursor).end;
+		const closeBracePosition = textDocument.positionAt(contractEnd.utf16 - 1);
+		edits.push({
+			range: { start: closeBracePosition, end: closeBracePosition },
+			newText: `\n${initializerText}\n`
+		});
+	}
+
+	function editExistingNamespace(edits: TextEdit[], structEndRange: text_index.TextRange) {
 		// for an existing namespace, remove all variables and insert them into the end of the struct
 		for (const variable of variables) {
 			if (variable.publicGetter) {
@@ -114,14 +163,12 @@ export async function getMoveAllVariablesToNamespaceQuickFix(fixesDiagnostics: D
 			} else {
 				// otherwise, just delete the variable
 				const deleteVariableTextEdit: TextEdit = {
-					range: variable.range,
+					range: getWholeLinesRange(textDocument, variable.range),
 					newText: ""
 				};
 				edits.push(deleteVariableTextEdit);	
 			}
 
-			// TODO infer indents from textDocument using the first indent before the first non-trivia in the contract
-			// TODO instead of adding indents, get the trivia around the original variable and use that
 			const insertVariableTextEdit: TextEdit = {
 				range: slangToVSCodeRange(textDocument, structEndRange),
 				newText: `\
@@ -134,14 +181,29 @@ ${indent}}\
 	}
 }
 
-function getNamespaceStructEndRange(contractCursor: cursor.Cursor, prefix: string, contractName: string): text_index.TextRange | undefined {
+/**
+ * Gets the range of the whole lines spanned by the given range, including the line break, if they contain nothing else.
+ * Otherwise, returns the given range.
+ */
+function getWholeLinesRange(textDocument: TextDocument, range: Range): Range {
+	const linesStart = { line: range.start.line, character: 0 };
+	const nextLineStart = { line: range.end.line + 1, character: 0 };
+	const textBefore = textDocument.getText({ start: linesStart, end: range.start });
+	const textAfter = textDocument.getText({ start: range.end, end: nextLineStart });
+	if (textBefore.trim().length === 0 && textAfter.trim().length === 0) {
+		return { start: linesStart, end: nextLineStart };
+	}
+	return range;
+}
+
+function getNamespaceStructEndRange(contractCursor: cursor.Cursor, prefix: string, formula: NamespaceFormula, contractName: string): text_index.TextRange | undefined {
 	const namespaceStructCursor = contractCursor.spawn();
 	namespaceStructCursor.goToNextTerminalWithKind(TerminalKind.SingleLineNatSpecComment);
 	const natspecNode = namespaceStructCursor.node();
 	if (natspecNode instanceof TerminalNode) {
 		const natspecText = natspecNode.text;
 
-		if (natspecText.includes(`@custom:storage-location erc7201:${getNamespaceId(prefix, contractName)}`)) {
+		if (natspecText.includes(`@custom:storage-location ${formula.name}:${getNamespaceId(prefix, contractName)}`)) {
 			// get range of the end of the struct
 			const namespaceStructEndCursor = contractCursor.spawn();
 			namespaceStructEndCursor.goToNextTerminalWithKind(TerminalKind.CloseBrace);
@@ -151,7 +213,66 @@ function getNamespaceStructEndRange(contractCursor: cursor.Cursor, prefix: strin
 	return undefined;
 }
 
-function editNamespaceVariablesInFunctions(contractCursor: cursor.Cursor, contractName: string, variables: Variable[], textDocument: TextDocument, edits: TextEdit[]) {
+/**
+ * Gets the assignments that set the initial values of variables in the namespace, such as `$.x = 1;`
+ */
+function getInitialValueAssignments(variables: Variable[], language: Language): string[] {
+	const assignments: string[] = [];
+	for (const variable of variables) {
+		if (variable.initialValue !== undefined) {
+			assignments.push(`$.${variable.name} = ${replaceVariablesInExpression(variable.initialValue, variables, language)};`);
+		}
+	}
+	return assignments;
+}
+
+/**
+ * Replaces references to the given variables in an expression with references to the namespace
+ */
+function replaceVariablesInExpression(expression: string, variables: Variable[], language: Language): string {
+	const parseOutput = language.parse(NonterminalKind.Expression, expression);
+	if (!parseOutput.isValid) {
+		return expression;
+	}
+
+	let result = '';
+	const cursor = parseOutput.createTreeCursor();
+	while (cursor.goToNextTerminal()) {
+		const node = cursor.node();
+		assert(node instanceof TerminalNode);
+		if (node.kind === TerminalKind.Identifier && variables.some(variable => variable.name === node.text)) {
+			result += `$.${node.text}`;
+		} else {
+			result += node.text;
+		}
+	}
+	return result;
+}
+
+/**
+ * Gets a cursor to the body of the function where the contract's own state is initialized, preferring
+ * `__<Contract>_init_unchained`, then `initialize`, then `__<Contract>_init`.
+ */
+function getInitializerBlockCursor(contractCursor: cursor.Cursor, contractName: string): cursor.Cursor | undefined {
+	const initializerNames = [`__${contractName}_init_unchained`, "initialize", `__${contractName}_init`];
+	const initializerBlocks = new Map<string, cursor.Cursor>();
+
+	const functionCursor = contractCursor.spawn();
+	while (functionCursor.goToNextNonterminalWithKind(NonterminalKind.FunctionDefinition)) {
+		const functionDefNode = functionCursor.node();
+		assert(functionDefNode instanceof NonterminalNode);
+		const functionName = new FunctionDefinition(functionDefNode).name.variant.text;
+
+		const blockCursor = functionCursor.spawn();
+		if (initializerNames.includes(functionName) && blockCursor.goToNextNonterminalWithKind(NonterminalKind.Block)) {
+			initializerBlocks.set(functionName, blockCursor);
+		}
+	}
+
+	return initializerNames.map(name => initializerBlocks.get(name)).find(blockCursor => blockCursor !== undefined);
+}
+
+function editNamespaceVariablesInFunctions(contractCursor: cursor.Cursor, contractName: string, variables: Variable[], textDocument: TextDocument, edits: TextEdit[], indent: string, initializerBlockCursor?: cursor.Cursor, initialValueAssignments: string[] = []) {
 	const cursor = contractCursor.spawn();
 	while (cursor.goToNextNonterminalWithKinds([NonterminalKind.ConstructorDefinition, NonterminalKind.FunctionBody])) {
 		const blockCursor = cursor.spawn();
@@ -160,21 +281,38 @@ function editNamespaceVariablesInFunctions(contractCursor: cursor.Cursor, contra
 		const blockNode = blockCursor.node();
 		assert(blockNode instanceof NonterminalNode);
 
+		const isInitializer = initializerBlockCursor !== undefined && blockCursor.textRange.start.utf8 === initializerBlockCursor.textRange.start.utf8;
+		const statements = isInitializer ? initialValueAssignments : [];
+
 		const needsReplacement = replaceVariables(blockCursor, variables, edits, textDocument);
-		if (needsReplacement) {
-			addStorageGetter(contractName, blockNode, blockCursor, edits, textDocument);
+		if (needsReplacement || statements.length > 0) {
+			addStorageGetter(contractName, blockNode, blockCursor, edits, textDocument, indent, statements);
 		}
 	}
 }
 
-function addStorageGetter(contractName: string, blockNode: NonterminalNode, functionBodyCursor: cursor.Cursor, edits: TextEdit[], textDocument: TextDocument, indent = "    ") {
+/**
+ * Adds a line to get the namespace storage at the start of the block if it does not exist yet, followed by the given statements.
+ */
+function addStorageGetter(contractName: string, blockNode: NonterminalNode, functionBodyCursor: cursor.Cursor, edits: TextEdit[], textDocument: TextDocument, indent: string, statements: string[] = []) {
 	const expectedLine = `${toStorageStructName(contractName)} storage $ = _get${toStorageStructName(contractName)}();`
-	if (!blockNode.unparse().includes(expectedLine)) {
+	const statementLines = statements.map(statement => `${indent}${indent}${statement}\n`).join('');
+
+	const blockText = blockNode.unparse();
+	const expectedLineIndex = blockText.indexOf(expectedLine);
+	if (expectedLineIndex === -1) {
 		const openBraceCursor = functionBodyCursor.spawn();
 		assert(openBraceCursor.goToNextTerminalWithKind(TerminalKind.OpenBrace));
 		edits.push({
 			range: slangToVSCodeRange(textDocument, openBraceCursor.textRange),
-			newText: `{\n${indent}${indent}${expectedLine}\n`
+			newText: `{\n${indent}${indent}${expectedLine}\n${statementLines}`
+		});
+	} else if (statementLines.length > 0) {
+		// insert the statements on the lines after the existing storage getter
+		const expectedLineEnd = textDocument.positionAt(functionBodyCursor.textRange.start.utf16 + expectedLineIndex + expectedLine.length);
+		edits.push({
+			range: { start: expectedLineEnd, end: expectedLineEnd },
+			newText: `\n${statementLines.trimEnd()}`
 		});
 	}
 }
@@ -196,3 +334,368 @@ function replaceVariables(blockCursor: cursor.Cursor, variables: Variable[], edi
 	}
 	return needsReplacement;
 }
+
+const INITIALIZABLE_IMPORT = `import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";`;
+
+/**
+ * Gets a quick fix for converting a contract's constructor into an initializer function.
+ *
+ * The constructor's parameters and body are moved into an `initialize` function (or `__<Contract>_init` for abstract contracts),
+ * and the arguments passed to parent constructors are moved into calls to the parents' `__<Parent>_init` functions.
+ * Other modifiers of the constructor are kept on the initializer, except for `initializer` and `onlyInitializing`.
+ * For non-abstract contracts, the constructor is replaced with one that calls `_disableInitializers()`.
+ * `Initializable` is added as a base contract if the contract does not inherit it.
+ *
+ * Statements that assign immutable variables stay in the constructor, along with the parameters that they use,
+ * since immutable variables can only be assigned in the constructor. If such an assignment is nested in another statement,
+ * no quick fix is returned.
+ */
+export async function getConvertConstructorToInitializerQuickFix(fixesDiagnostics: Diagnostic[], title: string, contractName: string, textDocument: TextDocument, indent: string): Promise<CodeAction | undefined> {
+	const { language, parseOutput } = await parseTextDocument(textDocument);
+
+	const contractCursor = findContractDefinition(parseOutput, contractName);
+	if (contractCursor === undefined) {
+		return undefined;
+	}
+	const contractNode = contractCursor.node();
+	assert(contractNode instanceof NonterminalNode);
+	const contractDef = new ContractDefinition(contractNode);
+	const isAbstract = contractDef.abstractKeyword !== undefined;
+
+	const constructorCursor = contractCursor.spawn();
+	if (!constructorCursor.goToNextNonterminalWithKind(NonterminalKind.ConstructorDefinition)) {
+		return undefined;
+	}
+	const constructorNode = constructorCursor.node();
+	assert(constructorNode instanceof NonterminalNode);
+	const constructorDef = new ConstructorDefinition(constructorNode);
+
+	const immutableNames = getImmutableVariableNames(contractCursor);
+	const constructorStatements: Statement[] = [];
+	const initializerStatements: Statement[] = [];
+	for (const statement of constructorDef.body.statements.items) {
+		if (!assignsAnyVariable(statement.cst, immutableNames)) {
+			initializerStatements.push(statement);
+		} else if (statement.variant instanceof ExpressionStatement) {
+			constructorStatements.push(statement);
+		} else {
+			return undefined;
+		}
+	}
+
+	const edits: TextEdit[] = [];
+	const initCalls: string[] = [];
+	const initCallIdentifiers = new Set<string>();
+	const ancestors = await getAncestors(contractCursor, textDocument, parseOutput, language);
+
+	// move arguments of parent constructors from the inheritance list into init calls
+	const inheritanceCursor = contractCursor.spawn();
+	while (inheritanceCursor.goToNextNonterminalWithKind(NonterminalKind.InheritanceType)) {
+		const inheritanceTypeNode = inheritanceCursor.node();
+		assert(inheritanceTypeNode instanceof NonterminalNode);
+		const inheritanceType = new InheritanceType(inheritanceTypeNode);
+		const parentName = inheritanceType.typeName.items[inheritanceType.typeName.items.length - 1].text;
+
+		if (inheritanceType.arguments !== undefined) {
+			const argumentsCursor = inheritanceCursor.spawn();
+			assert(argumentsCursor.goToNextNonterminalWithKind(NonterminalKind.ArgumentsDeclaration));
+			initCalls.push(printInitCall(parentName, inheritanceType.arguments.cst.unparse().trim()));
+			getIdentifiers(inheritanceType.arguments.cst).forEach(identifier => initCallIdentifiers.add(identifier));
+			edits.push({
+				range: slangToVSCodeRange(textDocument, getTrimmedRange(argumentsCursor)),
+				newText: ""
+			});
+		}
+	}
+
+	// move parent constructor invocations from the constructor into init calls, and keep other modifiers on the initializer
+	let isPayable = false;
+	const modifiers: string[] = [];
+	for (const attribute of constructorDef.attributes.items) {
+		if (attribute.variant instanceof ModifierInvocation) {
+			const name = attribute.variant.name.items[attribute.variant.name.items.length - 1].text;
+			if (ancestors.names.has(name)) {
+				initCalls.push(printInitCall(name, attribute.variant.arguments?.cst.unparse().trim() ?? "()"));
+			} else if (name !== "initializer" && name !== "onlyInitializing") {
+				modifiers.push(attribute.variant.cst.unparse().trim());
+			} else {
+				continue;
+			}
+			if (attribute.variant.arguments !== undefined) {
+				getIdentifiers(attribute.variant.arguments.cst).forEach(identifier => initCallIdentifiers.add(identifier));
+			}
+		} else if (attribute.variant.kind === TerminalKind.PayableKeyword) {
+			isPayable = true;
+		}
+	}
+
+	let parameters = constructorDef.parameters.cst.unparse().trim();
+	let bodyContent: string;
+	let constructorText: string;
+	if (constructorStatements.length === 0) {
+		const bodyText = constructorDef.body.cst.unparse().trim();
+		bodyContent = bodyText.substring(1, bodyText.length - 1);
+		constructorText = isAbstract ? '' : printConstructor('()', [`${indent}${indent}_disableInitializers();`], indent);
+	} else {
+		// parameters that are only used to assign immutable variables are no longer needed by the initializer
+		const constructorIdentifiers = getIdentifiers(...constructorStatements.map(statement => statement.cst));
+		const initializerIdentifiers = getIdentifiers(...initializerStatements.map(statement => statement.cst));
+		const allParameters = constructorDef.parameters.parameters.items;
+		const isUsedBy = (parameter: Parameter, identifiers: Set<string>) => parameter.name !== undefined && identifiers.has(parameter.name.text);
+		const constructorParameters = allParameters.filter(parameter => isUsedBy(parameter, constructorIdentifiers));
+		const initializerParameters = allParameters.filter(parameter => !isUsedBy(parameter, constructorIdentifiers) || isUsedBy(parameter, initializerIdentifiers) || isUsedBy(parameter, initCallIdentifiers));
+		parameters = printParameters(initializerParameters);
+
+		bodyContent = initializerStatements.map(statement => statement.cst.unparse()).join('');
+		const constructorLines = [
+			...formatBodyContent(constructorStatements.map(statement => statement.cst.unparse()).join(''), indent),
+			...(isAbstract ? [] : [`${indent}${indent}_disableInitializers();`]),
+		];
+		constructorText = printConstructor(printParameters(constructorParameters), constructorLines, indent);
+	}
+
+	const signature = isAbstract ?
+		`function __${contractName}_init${parameters} internal onlyInitializing${modifiers.map(modifier => ` ${modifier}`).join('')}` :
+		`function initialize${parameters} public${isPayable ? " payable" : ""} initializer${modifiers.map(modifier => ` ${modifier}`).join('')}`;
+
+	const statements = [
+		...initCalls.map(initCall => `${indent}${indent}${initCall};`),
+		...formatBodyContent(bodyContent, indent),
+	];
+
+	edits.push({
+		range: slangToVSCodeRange(textDocument, getTrimmedRange(constructorCursor)),
+		newText: `\
+${constructorText}${signature} {
+${statements.join('\n')}
+${indent}}`
+	});
+
+	if (!ancestors.inheritsInitializable) {
+		edits.push(...await getAddInitializableBaseEdits(contractCursor, textDocument, parseOutput, language));
+	}
+
+	const workspaceEdit: WorkspaceEdit = {
+		changes: { [textDocument.uri]: edits }
+	};
+	return {
+		title: title,
+		kind: CodeActionKind.QuickFix,
+		edit: workspaceEdit,
+		diagnostics: fixesDiagnostics,
+	};
+}
+
+/**
+ * Gets the names of the contracts that a contract inherits from, directly or through its bases, and whether `Initializable` is one of them.
+ * Direct bases that cannot be found in the imported source units are assumed to inherit `Initializable` if they are named
+ * like upgradeable contracts, such as `OwnableUpgradeable`.
+ */
+async function getAncestors(contractCursor: cursor.Cursor, textDocument: TextDocument, parseOutput: parse_output.ParseOutput, language: Language): Promise<{ names: Set<string>, inheritsInitializable: boolean }> {
+	const directBaseNames: string[] = [];
+	const inheritanceCursor = contractCursor.spawn();
+	while (inheritanceCursor.goToNextNonterminalWithKind(NonterminalKind.InheritanceType)) {
+		const inheritanceTypeNode = inheritanceCursor.node();
+		assert(inheritanceTypeNode instanceof NonterminalNode);
+		const typeName = new InheritanceType(inheritanceTypeNode).typeName;
+		directBaseNames.push(typeName.items[typeName.items.length - 1].text);
+	}
+
+	const sourceUnits = await getImportedSourceUnits(parseOutput, textDocument, language, workspaceFolders);
+	const linearizedNames = getLinearizedContracts(contractCursor.spawn(), textDocument, sourceUnits)?.slice(1).map(contract => contract.name) ?? [];
+	const unresolvedBaseNames = directBaseNames.filter(name => !linearizedNames.includes(name));
+
+	return {
+		names: new Set([...directBaseNames, ...linearizedNames]),
+		inheritsInitializable: linearizedNames.includes("Initializable") || unresolvedBaseNames.some(name => name === "Initializable" || name.endsWith("Upgradeable")),
+	};
+}
+
+/**
+ * Gets the edits that add `Initializable` as the first base contract of a contract, and import it if it is not defined or imported yet.
+ */
+async function getAddInitializableBaseEdits(contractCursor: cursor.Cursor, textDocument: TextDocument, parseOutput: parse_output.ParseOutput, language: Language): Promise<TextEdit[]> {
+	const edits: TextEdit[] = [];
+
+	const inheritanceCursor = contractCursor.spawn();
+	if (inheritanceCursor.goToNextNonterminalWithKind(NonterminalKind.InheritanceType)) {
+		const firstInheritanceTypeStart = getTrimmedRange(inheritanceCursor).start;
+		edits.push({
+			range: slangToVSCodeRange(textDocument, { start: firstInheritanceTypeStart, end: firstInheritanceTypeStart }),
+			newText: "Initializable, "
+		});
+	} else {
+		const contractNameCursor = contractCursor.spawn();
+		assert(contractNameCursor.goToNextTerminalWithKind(TerminalKind.Identifier));
+		edits.push({
+			range: slangToVSCodeRange(textDocument, { start: contractNameCursor.textRange.end, end: contractNameCursor.textRange.end }),
+			newText: " is Initializable"
+		});
+	}
+
+	if (findContractDefinition(parseOutput, "Initializable") === undefined && !await isContractImported("Initializable", parseOutput, textDocument, language, workspaceFolders)) {
+		edits.push(getInitializableImportEdit(parseOutput.createTreeCursor(), textDocument));
+	}
+	return edits;
+}
+
+/**
+ * Prints a call to the init function of an upgradeable parent contract, following the `__<Name>_init` convention
+ * where the `Upgradeable` suffix of the parent name is omitted.
+ */
+function printInitCall(parentName: string, args: string) {
+	return `__${parentName.replace(/Upgradeable$/, '')}_init${args}`;
+}
+
+/**
+ * Prints a constructor annotated with `@custom:oz-upgrades-unsafe-allow constructor`, followed by the indentation of the next member.
+ */
+function printConstructor(parameters: string, lines: string[], indent: string) {
+	return `\
+/// @custom:oz-upgrades-unsafe-allow constructor
+${indent}constructor${parameters} {
+${lines.join('\n')}
+${indent}}
+
+${indent}`;
+}
+
+function printParameters(parameters: Parameter[]) {
+	return `(${parameters.map(parameter => parameter.cst.unparse().trim()).join(', ')})`;
+}
+
+/**
+ * Formats the content of a block as the lines of a function body. Content that spans multiple lines keeps its original indentation.
+ */
+function formatBodyContent(content: string, indent: string): string[] {
+	const trimmedContent = content.replace(/^[ \t]*\r?\n/, '').trimEnd();
+	if (trimmedContent.trim().length === 0) {
+		return [];
+	}
+	return [trimmedContent.includes('\n') ? trimmedContent : `${indent}${indent}${trimmedContent.trim()}`];
+}
+
+/**
+ * Gets the names of the immutable state variables of a contract
+ */
+function getImmutableVariableNames(contractCursor: cursor.Cursor): string[] {
+	const names: string[] = [];
+	const stateVarCursor = contractCursor.spawn();
+	while (stateVarCursor.goToNextNonterminalWithKind(NonterminalKind.StateVariableDefinition)) {
+		const stateVarNode = stateVarCursor.node();
+		assert(stateVarNode instanceof NonterminalNode);
+		const stateVar = new StateVariableDefinition(stateVarNode);
+		if (stateVar.attributes.items.some(attribute => attribute.variant instanceof TerminalNode && attribute.variant.kind === TerminalKind.ImmutableKeyword)) {
+			names.push(stateVar.name.text);
+		}
+	}
+	return names;
+}
+
+/**
+ * Whether the node contains an assignment to any of the given variables, including as part of a tuple
+ */
+function assignsAnyVariable(node: NonterminalNode, variableNames: string[]): boolean {
+	const assignmentCursor = node.createCursor({ utf8: 0, utf16: 0, line: 0, column: 0 });
+	while (assignmentCursor.goToNextNonterminalWithKind(NonterminalKind.AssignmentExpression)) {
+		const assignmentNode = assignmentCursor.node();
+		assert(assignmentNode instanceof NonterminalNode);
+		const leftOperand = new AssignmentExpression(assignmentNode).leftOperand;
+		const targets = leftOperand.variant instanceof TupleExpression ?
+			leftOperand.variant.items.items.map(item => item.expression?.variant) :
+			[leftOperand.variant];
+		if (targets.some(target => target instanceof TerminalNode && variableNames.includes(target.text))) {
+			return true;
+		}
+	}
+	return false;
+}
+
+/**
+ * Gets the identifiers used in the given nodes
+ */
+function getIdentifiers(...nodes: NonterminalNode[]): Set<string> {
+	const identifiers = new Set<string>();
+	for (const node of nodes) {
+		const identifierCursor = node.createCursor({ utf8: 0, utf16: 0, line: 0, column: 0 });
+		while (identifierCursor.goToNextTerminalWithKind(TerminalKind.Identifier)) {
+			const identifierNode = identifierCursor.node();
+			assert(identifierNode instanceof TerminalNode);
+			identifiers.add(identifierNode.text);
+		}
+	}
+	return identifiers;
+}
+
+/**
+ * Gets an edit that imports `Initializable` after the last import or pragma directive.
+ */
+function getInitializableImportEdit(sourceUnitCursor: cursor.Cursor, textDocument: TextDocument): TextEdit {
+	let lastDirectiveEnd: text_index.TextIndex | undefined = undefined;
+	while (sourceUnitCursor.goToNextNonterminalWithKinds([NonterminalKind.PragmaDirective, NonterminalKind.ImportDirective])) {
+		lastDirectiveEnd = getTrimmedRange(sourceUnitCursor).end;
+	}
+
+	if (lastDirectiveEnd === undefined) {
+		return {
+			range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+			newText: `${INITIALIZABLE_IMPORT}\n\n`
+		};
+	} else {
+		return {
+			range: slangToVSCodeRange(textDocument, { start: lastDirectiveEnd, end: lastDirectiveEnd }),
+			newText: `\n${INITIALIZABLE_IMPORT}`
+		};
+	}
+}
+
+/**
+ * Gets a refactoring that inserts an empty namespace, its storage location constant and its storage getter
+ * at the start of the contract containing the range, if the contract does not have a namespace yet.
+ */
+export async function getInsertNamespaceRefactoring(title: string, prefix: string, formula: NamespaceFormula, range: Range, textDocument: TextDocument, indent: string): Promise<CodeAction | undefined> {
+	const { parseOutput } = await parseTextDocument(textDocument);
+	const offset = textDocument.offsetAt(range.start);
+
+	const cursor = parseOutput.createTreeCursor();
+	while (cursor.goToNextNonterminalWithKind(NonterminalKind.ContractDefinition)) {
+		if (offset < cursor.textRange.start.utf16 || offset > cursor.textRange.end.utf16) {
+			continue;
+		}
+
+		if (getStorageLayout(cursor, textDocument).namespaces.length > 0) {
+			return undefined;
+		}
+
+		const contractNode = cursor.node();
+		assert(contractNode instanceof NonterminalNode);
+		const contractName = new ContractDefinition(contractNode).name.text;
+
+		const openBraceCursor = cursor.spawn();
+		if (!openBraceCursor.goToNextTerminalWithKind(TerminalKind.OpenBrace)) {
+			return undefined;
+		}
+		const insertPosition = slangToVSCodeRange(textDocument, openBraceCursor.textRange).end;
+
+		const namespace: Namespace = {
+			contractName,
+			prefix,
+			variables: [],
+		};
+		const workspaceEdit: WorkspaceEdit = {
+			changes: {
+				[textDocument.uri]: [{
+					range: { start: insertPosition, end: insertPosition },
+					newText: `\n${indent}${printNamespaceTemplate(namespace, indent, formula).trimEnd()}\n`
+				}]
+			}
+		};
+		return {
+			title: title,
+			kind: CodeActionKind.RefactorRewrite,
+			edit: workspaceEdit,
+		};
+	}
+
+	return undefined;
+}
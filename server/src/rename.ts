@@ -0,0 +1,474 @@
+import { WorkspaceEdit } from 'vscode-languageserver/node';
+import { Position, Range, TextDocument, TextEdit } from 'vscode-languageserver-textdocument';
+import { EdgeLabel, NonterminalKind, TerminalKind } from '@nomicfoundation/slang/kinds';
+import { NonterminalNode, TerminalNode } from '@nomicfoundation/slang/cst';
+import { ContractDefinition, StateVariableDefinition } from '@nomicfoundation/slang/ast';
+import { cursor, parse_output, text_index } from '@nomicfoundation/slang';
+import { Language } from '@nomicfoundation/slang/language';
+import assert = require('node:assert');
+import { URI } from 'vscode-uri';
+import { promises as fs } from 'fs';
+import { findContractDefinition, getLastPrecedingCommentBlock, getNatSpec, getTrimmedRange, isTrivia, slangToVSCodeRange } from './helpers/slang';
+import { findNamespaceIdInHashComment, findNamespaceIdInNatSpec, getNamespaceId, toStorageStructName } from './namespace';
+import { ERC7201_FORMULA } from './namespaceFormulas';
+import { getNamespacePrefix } from './settings';
+import { parseTextDocument } from './documentCache';
+import { workspaceFolders } from './environment';
+import { findSolidityFiles } from './workspace';
+import { getImportedSourceUnits, isContractImported, SourceUnit } from './imports';
+import { getLinearizedContracts } from './inheritance';
+import { getUpgradesFromReference } from './layout';
+
+const IDENTIFIER_REGEX = /^[a-zA-Z$_][a-zA-Z0-9$_]*$/;
+
+type ParsedDocument = {
+	textDocument: TextDocument;
+	parseOutput: parse_output.ParseOutput;
+}
+
+/**
+ * The scopes that the names in a document are resolved in, to find the references to the renamed contract
+ * and to the names derived from its name.
+ */
+type DocumentScopes = {
+	/**
+	 * Whether the renamed contract can be used in the document without qualification
+	 */
+	isContractVisible: boolean;
+	/**
+	 * The aliases of imports such as `import "./A.sol" as Alias;`, through which the renamed contract can be used as `Alias.A`
+	 */
+	importAliases: Set<string>;
+	contracts: ContractScope[];
+	functions: FunctionScope[];
+}
+
+type ContractScope = {
+	range: text_index.TextRange;
+	isRenamedContract: boolean;
+	/**
+	 * Whether the contract inherits from the renamed contract, so that it can use the members derived from its name
+	 */
+	inheritsRenamedContract: boolean;
+	/**
+	 * The names of the members that the contract declares itself, which take precedence over the renamed names
+	 */
+	memberNames: Set<string>;
+}
+
+type FunctionScope = {
+	range: text_index.TextRange;
+	/**
+	 * The names of the parameters and local variables, which take precedence over the renamed names
+	 */
+	localNames: Set<string>;
+}
+
+const CONTRACT_KINDS = [NonterminalKind.ContractDefinition, NonterminalKind.InterfaceDefinition, NonterminalKind.LibraryDefinition];
+
+const MEMBER_DECLARATION_KINDS = [
+	NonterminalKind.StateVariableDefinition,
+	NonterminalKind.FunctionDefinition,
+	NonterminalKind.ModifierDefinition,
+	NonterminalKind.StructDefinition,
+	NonterminalKind.EnumDefinition,
+	NonterminalKind.EventDefinition,
+	NonterminalKind.ErrorDefinition,
+	NonterminalKind.UserDefinedValueTypeDefinition,
+];
+
+const FUNCTION_KINDS = [
+	NonterminalKind.FunctionDefinition,
+	NonterminalKind.ConstructorDefinition,
+	NonterminalKind.ModifierDefinition,
+	NonterminalKind.FallbackFunctionDefinition,
+	NonterminalKind.ReceiveFunctionDefinition,
+	NonterminalKind.UnnamedFunctionDefinition,
+	NonterminalKind.YulFunctionDefinition,
+];
+
+const LOCAL_DECLARATION_KINDS = [
+	NonterminalKind.Parameter,
+	NonterminalKind.VariableDeclarationStatement,
+	NonterminalKind.TypedTupleMember,
+	NonterminalKind.UntypedTupleMember,
+	NonterminalKind.YulVariableDeclarationStatement,
+	NonterminalKind.YulParameters,
+	NonterminalKind.YulReturnVariables,
+];
+
+/**
+ * Parents of identifiers that declare a name without the `Name` edge label
+ */
+const UNLABELED_DECLARATION_KINDS = [
+	NonterminalKind.FunctionName,
+	NonterminalKind.YulVariableDeclarationStatement,
+	NonterminalKind.YulParameters,
+	NonterminalKind.YulReturnVariables,
+	NonterminalKind.EnumMembers,
+	NonterminalKind.ImportAlias,
+];
+
+/**
+ * Gets the range of the contract name at the position, if the contract is defined in the document or in the workspace.
+ */
+export async function prepareContractRename(textDocument: TextDocument, position: Position, getOpenDocument: (uri: string) => TextDocument | undefined): Promise<Range | undefined> {
+	const { language, parseOutput } = await parseTextDocument(textDocument);
+
+	const identifier = getIdentifierAtPosition(parseOutput, textDocument, position);
+	if (identifier === undefined) {
+		return undefined;
+	}
+
+	const document = { textDocument, parseOutput };
+	const contractDocument = await findContractDocument(identifier.name, document, language, getOpenDocument);
+	if (contractDocument === undefined || !await isContractReference(identifier, document, contractDocument, language)) {
+		return undefined;
+	}
+	return identifier.range;
+}
+
+/**
+ * Gets the edits to rename the contract at the position. Besides references to the contract, this renames the names that
+ * are derived from the contract name: the namespace struct, its storage getter and location constant, and the initializers.
+ * In the contract itself, the namespace id, the hash comment and the location constant's value are updated for the new id,
+ * unless the contract has a `@custom:oz-upgrades-from` reference, since changing the id would move the namespace's storage.
+ *
+ * @returns The edits, or undefined if there is no contract at the position
+ */
+export async function getContractRenameEdit(textDocument: TextDocument, position: Position, newName: string, getOpenDocument: (uri: string) => TextDocument | undefined): Promise<WorkspaceEdit | undefined> {
+	if (!IDENTIFIER_REGEX.test(newName)) {
+		throw new Error(`\`${newName}\` is not a valid contract name`);
+	}
+
+	const { language, parseOutput } = await parseTextDocument(textDocument);
+
+	const identifier = getIdentifierAtPosition(parseOutput, textDocument, position);
+	if (identifier === undefined) {
+		return undefined;
+	}
+	const oldName = identifier.name;
+
+	const contractDocument = await findContractDocument(oldName, { textDocument, parseOutput }, language, getOpenDocument);
+	if (contractDocument === undefined || !await isContractReference(identifier, { textDocument, parseOutput }, contractDocument, language)) {
+		return undefined;
+	}
+
+	const oldStructName = toStorageStructName(oldName);
+	const newStructName = toStorageStructName(newName);
+	const renames: Map<string, string> = new Map([
+		[oldName, newName],
+		[oldStructName, newStructName],
+		[`${oldStructName}Location`, `${newStructName}Location`],
+		[`_get${oldStructName}`, `_get${newStructName}`],
+		[`__${oldName}_init`, `__${newName}_init`],
+		[`__${oldName}_init_unchained`, `__${newName}_init_unchained`],
+	]);
+
+	const changes: { [uri: string]: TextEdit[] } = {};
+	for (const document of await getDocumentsContaining(oldName, { textDocument, parseOutput }, language, getOpenDocument)) {
+		const scopes = await getDocumentScopes(document, contractDocument, oldName, language);
+		if (scopes === undefined) {
+			continue;
+		}
+		const edits = getIdentifierRenameEdits(document, scopes, oldName, renames);
+		if (edits.length > 0) {
+			changes[document.textDocument.uri] = edits;
+		}
+	}
+
+	const contractCursor = findContractDefinition(contractDocument.parseOutput, oldName);
+	assert(contractCursor !== undefined);
+	if (getUpgradesFromReference(contractCursor) !== undefined) {
+		return { changes };
+	}
+
+	const namespacePrefix = await getNamespacePrefix(contractDocument.textDocument);
+	const namespaceEdits = getNamespaceIdRenameEdits(contractCursor, contractDocument.textDocument, getNamespaceId(namespacePrefix, oldName), getNamespaceId(namespacePrefix, newName));
+	if (namespaceEdits.length > 0) {
+		const uri = contractDocument.textDocument.uri;
+		changes[uri] = [...(changes[uri] ?? []), ...namespaceEdits];
+	}
+
+	return { changes };
+}
+
+function getIdentifierAtPosition(parseOutput: parse_output.ParseOutput, textDocument: TextDocument, position: Position): { name: string, range: Range } | undefined {
+	const offset = textDocument.offsetAt(position);
+
+	const cursor = parseOutput.createTreeCursor();
+	while (cursor.goToNextTerminalWithKind(TerminalKind.Identifier)) {
+		const textRange = cursor.textRange;
+		if (textRange.start.utf16 <= offset && offset <= textRange.end.utf16) {
+			const node = cursor.node();
+			assert(node instanceof TerminalNode);
+			return { name: node.text, range: slangToVSCodeRange(textDocument, textRange) };
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Finds the document that defines the contract, searching the given document first, followed by all Solidity files in the workspace.
+ */
+async function findContractDocument(contractName: string, document: ParsedDocument, language: Language, getOpenDocument: (uri: string) => TextDocument | undefined): Promise<ParsedDocument | undefined> {
+	return (await getDocumentsContaining(contractName, document, language, getOpenDocument))
+		.find(candidate => findContractDefinition(candidate.parseOutput, contractName) !== undefined);
+}
+
+/**
+ * Gets the given document and the Solidity files in the workspace whose text contains the given name.
+ * Open documents are used instead of the files on disk.
+ */
+async function getDocumentsContaining(name: string, document: ParsedDocument, language: Language, getOpenDocument: (uri: string) => TextDocument | undefined): Promise<ParsedDocument[]> {
+	const documents = [document];
+
+	for (const file of await findSolidityFiles(workspaceFolders)) {
+		const uri = URI.file(file).toString();
+		if (uri === document.textDocument.uri) {
+			continue;
+		}
+
+		let textDocument = getOpenDocument(uri);
+		if (textDocument === undefined) {
+			try {
+				textDocument = TextDocument.create(uri, 'solidity', 0, await fs.readFile(file, 'utf8'));
+			} catch (e: any) {
+				continue;
+			}
+		}
+
+		if (textDocument.getText().includes(name)) {
+			documents.push({ textDocument, parseOutput: language.parse(NonterminalKind.SourceUnit, textDocument.getText()) });
+		}
+	}
+
+	return documents;
+}
+
+/**
+ * Whether the identifier refers to the contract with its name that is defined in the contract document.
+ */
+async function isContractReference(identifier: { name: string, range: Range }, document: ParsedDocument, contractDocument: ParsedDocument, language: Language): Promise<boolean> {
+	const scopes = await getDocumentScopes(document, contractDocument, identifier.name, language);
+	if (scopes === undefined) {
+		return false;
+	}
+	const offset = document.textDocument.offsetAt(identifier.range.start);
+	return getIdentifierRenameEdits(document, scopes, identifier.name, new Map([[identifier.name, identifier.name]]))
+		.some(edit => document.textDocument.offsetAt(edit.range.start) === offset);
+}
+
+/**
+ * Gets the scopes of a document that references to the renamed contract are resolved in.
+ *
+ * @returns The scopes, or undefined if the document defines a different contract with the same name
+ */
+async function getDocumentScopes(document: ParsedDocument, contractDocument: ParsedDocument, contractName: string, language: Language): Promise<DocumentScopes | undefined> {
+	const isContractDocument = document.textDocument.uri === contractDocument.textDocument.uri;
+	if (!isContractDocument && findContractDefinition(document.parseOutput, contractName) !== undefined) {
+		return undefined;
+	}
+
+	const scopes: DocumentScopes = {
+		isContractVisible: isContractDocument || await isContractImported(contractName, document.parseOutput, document.textDocument, language, workspaceFolders),
+		importAliases: new Set(),
+		contracts: [],
+		functions: [],
+	};
+
+	const contractCursor = document.parseOutput.createTreeCursor();
+	let sourceUnits: SourceUnit[] | undefined = undefined;
+	while (contractCursor.goToNextNonterminalWithKinds(CONTRACT_KINDS)) {
+		const contractNode = contractCursor.node();
+		assert(contractNode instanceof NonterminalNode);
+
+		let isRenamedContract = false;
+		let inheritsRenamedContract = false;
+		if (contractNode.kind === NonterminalKind.ContractDefinition) {
+			isRenamedContract = isContractDocument && new ContractDefinition(contractNode).name.text === contractName;
+			if (!isRenamedContract) {
+				sourceUnits ??= await getImportedSourceUnits(document.parseOutput, document.textDocument, language, workspaceFolders);
+				inheritsRenamedContract = getLinearizedContracts(contractCursor.spawn(), document.textDocument, sourceUnits)
+					?.some(contract => contract.name === contractName && contract.textDocument.uri === contractDocument.textDocument.uri) ?? false;
+			}
+		}
+		scopes.contracts.push({ range: contractCursor.textRange, isRenamedContract, inheritsRenamedContract, memberNames: new Set() });
+	}
+
+	const functionCursor = document.parseOutput.createTreeCursor();
+	while (functionCursor.goToNextNonterminalWithKinds(FUNCTION_KINDS)) {
+		scopes.functions.push({ range: functionCursor.textRange, localNames: new Set() });
+	}
+
+	const identifierCursor = document.parseOutput.createTreeCursor();
+	while (identifierCursor.goToNextTerminalWithKinds([TerminalKind.Identifier, TerminalKind.YulIdentifier])) {
+		const declarationKind = getDeclarationKind(identifierCursor);
+		if (declarationKind === undefined) {
+			continue;
+		}
+		const name = (identifierCursor.node() as TerminalNode).text;
+		const offset = identifierCursor.textRange.start.utf16;
+
+		if (declarationKind === NonterminalKind.ImportAlias && identifierCursor.ancestors()[1]?.kind !== NonterminalKind.ImportDeconstructionSymbol) {
+			scopes.importAliases.add(name);
+		} else if (MEMBER_DECLARATION_KINDS.includes(declarationKind)) {
+			findContractScope(scopes, offset)?.memberNames.add(name);
+		} else if (LOCAL_DECLARATION_KINDS.includes(declarationKind)) {
+			// the innermost function, such as an assembly function within a function
+			const functionScope = scopes.functions.filter(scope => containsOffset(scope.range, offset)).pop();
+			functionScope?.localNames.add(name);
+		}
+	}
+
+	return scopes;
+}
+
+/**
+ * Gets the edits to rename the identifiers in a document that refer to the renamed contract, or to the names derived from its name.
+ */
+function getIdentifierRenameEdits(document: ParsedDocument, scopes: DocumentScopes, contractName: string, renames: Map<string, string>): TextEdit[] {
+	const edits: TextEdit[] = [];
+
+	const cursor = document.parseOutput.createTreeCursor();
+	// the location constant is also referenced from assembly
+	while (cursor.goToNextTerminalWithKinds([TerminalKind.Identifier, TerminalKind.YulIdentifier])) {
+		const node = cursor.node();
+		assert(node instanceof TerminalNode);
+
+		const newText = renames.get(node.text);
+		if (newText !== undefined && isRenamedReference(cursor, scopes, contractName)) {
+			edits.push({ range: slangToVSCodeRange(document.textDocument, cursor.textRange), newText });
+		}
+	}
+
+	return edits;
+}
+
+/**
+ * Whether the identifier refers to the renamed contract or to a name derived from its name, or declares one of them in the renamed contract.
+ * References to contracts, members and locals with the same names are not renamed.
+ */
+function isRenamedReference(identifierCursor: cursor.Cursor, scopes: DocumentScopes, contractName: string): boolean {
+	const name = (identifierCursor.node() as TerminalNode).text;
+	const offset = identifierCursor.textRange.start.utf16;
+	const contractScope = findContractScope(scopes, offset);
+
+	const declarationKind = getDeclarationKind(identifierCursor);
+	if (declarationKind === NonterminalKind.ImportDeconstructionSymbol) {
+		// such as `import {A} from "./A.sol";`
+		return name === contractName;
+	}
+	if (declarationKind !== undefined) {
+		return contractScope?.isRenamedContract === true && (declarationKind === NonterminalKind.ContractDefinition || MEMBER_DECLARATION_KINDS.includes(declarationKind));
+	}
+
+	const qualifier = getQualifier(identifierCursor);
+	if (qualifier !== undefined) {
+		// such as `Alias.A` for the contract, or `A.AStorage` for a name derived from it
+		return name === contractName ? scopes.importAliases.has(qualifier) : qualifier === contractName && scopes.isContractVisible;
+	}
+
+	if (scopes.functions.some(scope => containsOffset(scope.range, offset) && scope.localNames.has(name))) {
+		return false;
+	}
+	if (contractScope !== undefined && !contractScope.isRenamedContract && contractScope.memberNames.has(name)) {
+		return false;
+	}
+	if (name === contractName) {
+		return scopes.isContractVisible;
+	}
+	return contractScope !== undefined && (contractScope.isRenamedContract || contractScope.inheritsRenamedContract);
+}
+
+/**
+ * Gets the kind of the definition or declaration whose name is the identifier, such as a FunctionDefinition or a Parameter.
+ *
+ * @returns The kind, or undefined if the identifier is not the name of a declaration
+ */
+function getDeclarationKind(identifierCursor: cursor.Cursor): NonterminalKind | undefined {
+	const [parent, grandparent] = identifierCursor.ancestors();
+	if (parent === undefined) {
+		return undefined;
+	}
+	if (parent.kind === NonterminalKind.FunctionName) {
+		return grandparent?.kind;
+	}
+	return identifierCursor.label === EdgeLabel.Name || UNLABELED_DECLARATION_KINDS.includes(parent.kind) ? parent.kind : undefined;
+}
+
+/**
+ * Gets the expression or path that the identifier is accessed as a member of, such as `A` in `A.AStorage` or `$` in `$.slot`.
+ *
+ * @returns The text of the qualifier, or undefined if the identifier is not a member
+ */
+function getQualifier(identifierCursor: cursor.Cursor): string | undefined {
+	const memberCursor = identifierCursor.clone();
+	const parentKind = identifierCursor.ancestors()[0]?.kind;
+	if (parentKind === NonterminalKind.MemberAccess || parentKind === NonterminalKind.YulPathComponent) {
+		memberCursor.goToParent();
+	} else if (parentKind !== NonterminalKind.IdentifierPath) {
+		return undefined;
+	}
+
+	// the member is preceded by a period and then by the qualifier
+	let siblings = 0;
+	while (memberCursor.goToPreviousSibling()) {
+		const node = memberCursor.node();
+		if (!isTrivia(node) && ++siblings === 2) {
+			return node instanceof TerminalNode ? node.text : node.unparse().trim();
+		}
+	}
+	return undefined;
+}
+
+function findContractScope(scopes: DocumentScopes, offset: number): ContractScope | undefined {
+	return scopes.contracts.find(scope => containsOffset(scope.range, offset));
+}
+
+function containsOffset(range: text_index.TextRange, offset: number): boolean {
+	return range.start.utf16 <= offset && offset < range.end.utf16;
+}
+
+/**
+ * Gets the edits to replace the old namespace id with the new one in the contract's namespace annotations and hash comments,
+ * and to replace the old storage location with the new one in the location constants.
+ */
+function getNamespaceIdRenameEdits(contractCursor: cursor.Cursor, textDocument: TextDocument, oldNamespaceId: string, newNamespaceId: string): TextEdit[] {
+	const edits: TextEdit[] = [];
+	const getRange = (start: number, length: number) => ({ start: textDocument.positionAt(start), end: textDocument.positionAt(start + length) });
+
+	let formula = ERC7201_FORMULA;
+	const structCursor = contractCursor.spawn();
+	while (structCursor.goToNextNonterminalWithKind(NonterminalKind.StructDefinition)) {
+		const natSpec = getNatSpec(structCursor);
+		const match = natSpec !== undefined ? findNamespaceIdInNatSpec(natSpec) : undefined;
+		if (natSpec !== undefined && match !== undefined && match.namespaceId === oldNamespaceId) {
+			edits.push({ range: getRange(natSpec.textRange.start.utf16 + match.offset, oldNamespaceId.length), newText: newNamespaceId });
+			formula = match.formula;
+		}
+	}
+
+	const oldLocation = formula.calculateLocation(oldNamespaceId);
+	const stateVarCursor = contractCursor.spawn();
+	while (stateVarCursor.goToNextNonterminalWithKind(NonterminalKind.StateVariableDefinition)) {
+		const comment = getLastPrecedingCommentBlock(stateVarCursor);
+		const match = comment !== undefined ? findNamespaceIdInHashComment(comment.text, formula) : undefined;
+		if (comment !== undefined && match !== undefined && match.namespaceId === oldNamespaceId) {
+			edits.push({ range: getRange(comment.textRange.start.utf16 + match.offset, oldNamespaceId.length), newText: newNamespaceId });
+		}
+
+		const stateVarNode = stateVarCursor.node();
+		assert(stateVarNode instanceof NonterminalNode);
+		const stateVar = new StateVariableDefinition(stateVarNode);
+		if (stateVar.value !== undefined) {
+			const trimmedRange = getTrimmedRange(stateVarCursor);
+			const locationIndex = textDocument.getText(slangToVSCodeRange(textDocument, trimmedRange)).toLowerCase().indexOf(oldLocation.toLowerCase());
+			if (locationIndex !== -1) {
+				edits.push({ range: getRange(trimmedRange.start.utf16 + locationIndex, oldLocation.length), newText: formula.calculateLocation(newNamespaceId) });
+			}
+		}
+	}
+
+	return edits;
+}
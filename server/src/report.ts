@@ -0,0 +1,146 @@
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver/node';
+
+export type FileDiagnostics = {
+	/**
+	 * The path of the file, relative to the project root
+	 */
+	file: string;
+	diagnostics: Diagnostic[];
+}
+
+export type ReportFormat = 'text' | 'json' | 'sarif';
+
+export const REPORT_FORMATS: ReportFormat[] = ['text', 'json', 'sarif'];
+
+const SEVERITY_NAMES: Record<DiagnosticSeverity, string> = {
+	[DiagnosticSeverity.Error]: 'error',
+	[DiagnosticSeverity.Warning]: 'warning',
+	[DiagnosticSeverity.Information]: 'information',
+	[DiagnosticSeverity.Hint]: 'hint',
+};
+
+/**
+ * Gets the severity with the given name, such as `error` or `warning`.
+ */
+export function parseSeverity(name: string): DiagnosticSeverity | undefined {
+	const entry = Object.entries(SEVERITY_NAMES).find(([, severityName]) => severityName === name);
+	return entry !== undefined ? Number(entry[0]) as DiagnosticSeverity : undefined;
+}
+
+export function getSeverityName(severity: DiagnosticSeverity | undefined): string {
+	return SEVERITY_NAMES[severity ?? DiagnosticSeverity.Error];
+}
+
+export function formatReport(results: FileDiagnostics[], format: ReportFormat): string {
+	switch (format) {
+		case 'json':
+			return formatJson(results);
+		case 'sarif':
+			return formatSarif(results);
+		default:
+			return formatText(results);
+	}
+}
+
+/**
+ * Formats diagnostics as `file:line:column: severity Code: message`, followed by the details of each diagnostic.
+ */
+function formatText(results: FileDiagnostics[]): string {
+	const lines: string[] = [];
+	let count = 0;
+	for (const result of results) {
+		for (const diagnostic of result.diagnostics) {
+			const start = diagnostic.range.start;
+			lines.push(`${result.file}:${start.line + 1}:${start.character + 1}: ${getSeverityName(diagnostic.severity)} ${diagnostic.code}: ${diagnostic.message}`);
+			const details = getDetails(diagnostic);
+			if (details !== undefined) {
+				lines.push(`    ${details}`);
+			}
+			count++;
+		}
+	}
+	lines.push(`${count} problem${count === 1 ? '' : 's'} in ${results.length} file${results.length === 1 ? '' : 's'}`);
+	return lines.join('\n') + '\n';
+}
+
+function formatJson(results: FileDiagnostics[]): string {
+	const output = results.flatMap(result => result.diagnostics.map(diagnostic => ({
+		file: result.file,
+		range: diagnostic.range,
+		severity: getSeverityName(diagnostic.severity),
+		code: diagnostic.code,
+		message: diagnostic.message,
+		details: getDetails(diagnostic),
+	})));
+	return JSON.stringify(output, null, 2) + '\n';
+}
+
+/**
+ * Formats diagnostics as a SARIF 2.1.0 log, which can be uploaded to GitHub code scanning.
+ */
+function formatSarif(results: FileDiagnostics[]): string {
+	const rules: { id: string, shortDescription: { text: string } }[] = [];
+	const sarifResults = [];
+
+	for (const result of results) {
+		for (const diagnostic of result.diagnostics) {
+			const ruleId = String(diagnostic.code);
+			let ruleIndex = rules.findIndex(rule => rule.id === ruleId);
+			if (ruleIndex === -1) {
+				ruleIndex = rules.push({ id: ruleId, shortDescription: { text: diagnostic.message } }) - 1;
+			}
+
+			const details = getDetails(diagnostic);
+			sarifResults.push({
+				ruleId,
+				ruleIndex,
+				level: getSarifLevel(diagnostic.severity),
+				message: { text: details !== undefined ? `${diagnostic.message}: ${details}` : diagnostic.message },
+				locations: [{
+					physicalLocation: {
+						artifactLocation: { uri: result.file.split('\\').join('/'), uriBaseId: '%SRCROOT%' },
+						// SARIF lines and columns are 1-based
+						region: {
+							startLine: diagnostic.range.start.line + 1,
+							startColumn: diagnostic.range.start.character + 1,
+							endLine: diagnostic.range.end.line + 1,
+							endColumn: diagnostic.range.end.character + 1,
+						},
+					},
+				}],
+			});
+		}
+	}
+
+	const log = {
+		$schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+		version: '2.1.0',
+		runs: [{
+			tool: {
+				driver: {
+					name: 'openzeppelin-ls',
+					informationUri: 'https://github.com/OpenZeppelin/openzeppelin-vscode',
+					rules,
+				},
+			},
+			results: sarifResults,
+		}],
+	};
+	return JSON.stringify(log, null, 2) + '\n';
+}
+
+function getSarifLevel(severity: DiagnosticSeverity | undefined): string {
+	switch (severity) {
+		case DiagnosticSeverity.Warning:
+			return 'warning';
+		case DiagnosticSeverity.Information:
+		case DiagnosticSeverity.Hint:
+			return 'note';
+		default:
+			return 'error';
+	}
+}
+
+function getDetails(diagnostic: Diagnostic): string | undefined {
+	return diagnostic.relatedInformation?.[0]?.message;
+}
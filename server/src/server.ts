@@ -9,7 +9,6 @@ import {
 	createConnection,
 	TextDocuments,
 	Diagnostic,
-	DiagnosticSeverity,
 	ProposedFeatures,
 	InitializeParams,
 	DidChangeConfigurationNotification,
@@ -21,24 +20,46 @@ import {
 	CodeActionParams,
 	CodeAction,
 	CodeActionContext,
-	LSPAny,
-	WorkspaceEdit
+	HoverParams,
+	Hover,
+	CodeLensParams,
+	CodeLens,
+	ExecuteCommandParams,
+	CompletionParams,
+	CompletionItem,
+	FileChangeType,
+	FormattingOptions,
+	PrepareRenameParams,
+	RenameParams,
+	ResponseError,
+	ErrorCodes,
+	Range,
+	WorkspaceEdit,
+	LSPErrorCodes
 } from 'vscode-languageserver/node';
 
 import {
-	Range,
-	TextDocument,
-	TextEdit} from 'vscode-languageserver-textdocument';
-
-import { NonterminalKind } from "@nomicfoundation/slang/kinds";
-import { Variable } from './namespace';
-import { Language } from '@nomicfoundation/slang/language';
+	TextDocument
+} from 'vscode-languageserver-textdocument';
 
 import { URI } from 'vscode-uri';
-import { CONTRACT_CAN_BE_NAMESPACED, NAMESPACE_HASH_MISMATCH, NAMESPACE_ID_MISMATCH, NAMESPACE_ID_MISMATCH_HASH_COMMENT, NAMESPACE_STANDALONE_HASH_MISMATCH, validateNamespaces } from './diagnostics';
-import { getMoveAllVariablesToNamespaceQuickFix } from './quickfixes';
-import { getNamespacePrefix, OpenZeppelinLSSettings } from './settings';
-import { inferSolidityVersion } from './solidityVersion';
+import { validateTextDocument } from './diagnostics';
+import { getInsertNamespaceRefactoring } from './quickfixes';
+import { getCodeActions } from './codeactions';
+import { FIX_ALL_CODE_ACTION_KIND, getFixAllCodeAction } from './fix';
+import { getNamespaceFormulaSetting, getNamespacePrefix, OpenZeppelinLSSettings } from './settings';
+import { defaultSettings, setDiagnosticRelatedInformationCapability, setFormattingOptionsProvider, setSettingsProvider, workspaceFolders } from './environment';
+import { applyEol, inferFormatting } from './formatting';
+import { getHover } from './hover';
+import { getCompletions } from './completion';
+import { getCodeLenses, getInsertStorageLocationConstantEdit, INSERT_STORAGE_LOCATION_CONSTANT_COMMAND } from './codelens';
+import { indexFile, indexWorkspaceNamespaces, removeFromNamespaceIndex, setNamespaceIndexChangeListener } from './namespaceIndex';
+import { getContractRenameEdit, prepareContractRename } from './rename';
+import { getSuppressionCodeActions } from './suppressions';
+import { clearDocumentCache, removeFromDocumentCache } from './documentCache';
+import { clearSolidityVersionCache } from './solidityVersion';
+import { clearProjectCache, isProjectConfigFile, isWorkspaceSourceFile } from './workspace';
+import { clearRemappingsCache } from './imports';
 
 // Create a connection for the server, using Node's IPC as a transport.
 // Also include all preview / proposed LSP features.
@@ -49,9 +70,6 @@ const documents: TextDocuments<TextDocument> = new TextDocuments(TextDocument);
 
 let hasConfigurationCapability = false;
 let hasWorkspaceFolderCapability = false;
-let hasDiagnosticRelatedInformationCapability = false;
-
-export let workspaceFolders: string[] = [];
 
 connection.onInitialize((params: InitializeParams) => {
 	const capabilities = params.capabilities;
@@ -64,11 +82,13 @@ connection.onInitialize((params: InitializeParams) => {
 	hasWorkspaceFolderCapability = !!(
 		capabilities.workspace && !!capabilities.workspace.workspaceFolders
 	);
-	hasDiagnosticRelatedInformationCapability = !!(
+	setDiagnosticRelatedInformationCapability(!!(
 		capabilities.textDocument &&
 		capabilities.textDocument.publishDiagnostics &&
 		capabilities.textDocument.publishDiagnostics.relatedInformation
-	);
+	));
+	setSettingsProvider(getDocumentSettings);
+	setFormattingOptionsProvider(getEditorFormattingOptions);
 
 	if (hasWorkspaceFolderCapability && params.workspaceFolders != null) {
 		params.workspaceFolders.forEach(folder => {
@@ -87,11 +107,24 @@ connection.onInitialize((params: InitializeParams) => {
 		capabilities: {
 			textDocumentSync: TextDocumentSyncKind.Incremental,
 			diagnosticProvider: {
-				interFileDependencies: false,
+				interFileDependencies: true,
 				workspaceDiagnostics: false
 			},
 			codeActionProvider : {
-				codeActionKinds : [ CodeActionKind.QuickFix ]
+				codeActionKinds : [ CodeActionKind.QuickFix, CodeActionKind.RefactorRewrite, FIX_ALL_CODE_ACTION_KIND ]
+			},
+			hoverProvider: true,
+			completionProvider: {
+				triggerCharacters: [ ':', '@' ]
+			},
+			codeLensProvider: {
+				resolveProvider: false
+			},
+			executeCommandProvider: {
+				commands: [ INSERT_STORAGE_LOCATION_CONSTANT_COMMAND ]
+			},
+			renameProvider: {
+				prepareProvider: true
 			},
 		}
 	};
@@ -115,12 +148,15 @@ connection.onInitialized(() => {
 			connection.console.log('Workspace folder change event received.');
 		});
 	}
+
+	// Diagnostics of open documents depend on the namespaces in other files
+	setNamespaceIndexChangeListener(() => connection.languages.diagnostics.refresh());
+	indexWorkspaceNamespaces();
 });
 
 // The global settings, used when the `workspace/configuration` request is not supported by the client.
 // Please note that this is not the case when using this server with the client provided in this example
 // but could happen with other clients.
-const defaultSettings: OpenZeppelinLSSettings = { solidityVersion: "", namespacePrefix: "" };
 let globalSettings: OpenZeppelinLSSettings = defaultSettings;
 
 // Cache the settings of all open documents
@@ -135,13 +171,15 @@ connection.onDidChangeConfiguration(change => {
 			(change.settings.openzeppelinLS || defaultSettings)
 		);
 	}
+	// The Solidity version may be set in the settings
+	clearDocumentCache();
 	// Refresh the diagnostics since the `maxNumberOfProblems` could have changed.
 	// We could optimize things here and re-fetch the setting first can compare it
 	// to the existing setting, but this is out of scope for this example.
 	connection.languages.diagnostics.refresh();
 });
 
-export function getDocumentSettings(resource: string): Thenable<OpenZeppelinLSSettings> {
+function getDocumentSettings(resource: string): Thenable<OpenZeppelinLSSettings> {
 	if (!hasConfigurationCapability) {
 		return Promise.resolve(globalSettings);
 	}
@@ -156,13 +194,45 @@ export function getDocumentSettings(resource: string): Thenable<OpenZeppelinLSSe
 	return result;
 }
 
+/**
+ * Gets the editor's indentation settings for a document, unless the editor detects the indentation from the document's content.
+ */
+async function getEditorFormattingOptions(resource: string): Promise<FormattingOptions | undefined> {
+	if (!hasConfigurationCapability) {
+		return undefined;
+	}
+	const editorSettings = await connection.workspace.getConfiguration({
+		scopeUri: resource,
+		section: 'editor'
+	});
+	if (editorSettings?.detectIndentation !== false || typeof editorSettings.tabSize !== 'number') {
+		return undefined;
+	}
+	return { tabSize: editorSettings.tabSize, insertSpaces: editorSettings.insertSpaces !== false };
+}
+
 // Only keep settings for open documents
 documents.onDidClose(e => {
 	documentSettings.delete(e.document.uri);
+	removeFromDocumentCache(e.document.uri);
+	// Unsaved changes are discarded, so index the file from disk again
+	const file = URI.parse(e.document.uri).fsPath;
+	isWorkspaceSourceFile(file, workspaceFolders).then(isSourceFile => isSourceFile ? indexFile(file) : removeFromNamespaceIndex(e.document.uri));
 });
 
 
-connection.languages.diagnostics.on(async (params) => {
+/**
+ * The time to wait for further changes before validating a document, since the client requests diagnostics after every change.
+ */
+const VALIDATION_DELAY_MS = 200;
+
+connection.languages.diagnostics.on(async (params, token) => {
+	// The client cancels the request when the document changes again, so only the latest change is validated
+	await new Promise(resolve => setTimeout(resolve, VALIDATION_DELAY_MS));
+	if (token.isCancellationRequested) {
+		throw new ResponseError(LSPErrorCodes.RequestCancelled, 'Document changed');
+	}
+
 	const document = documents.get(params.textDocument.uri);
 	if (document !== undefined) {
 		return {
@@ -179,54 +249,42 @@ connection.languages.diagnostics.on(async (params) => {
 	}
 });
 
-// The content of a text document has changed. This event is emitted
-// when the text document first opened or when its content has changed.
-documents.onDidChangeContent(change => {
-	validateTextDocument(change.document);
-});
-
-export type NamespaceableContract = {
-	name: string;
-	variables: Variable[];
-}
-
-async function validateTextDocument(textDocument: TextDocument): Promise<Diagnostic[]> {
-	const diagnostics: Diagnostic[] = [];
-
-	const language = new Language(await inferSolidityVersion(textDocument, workspaceFolders));
-	const parseOutput = language.parse(NonterminalKind.SourceUnit, textDocument.getText());
-
-	await validateNamespaces(parseOutput, language, textDocument, diagnostics);
-
-	return diagnostics;
-}
+connection.onDidChangeWatchedFiles(async change => {
+	// Monitored files have change in VSCode
+	connection.console.log('We received a file change event');
+	let projectConfigChanged = false;
+	for (const event of change.changes) {
+		const file = URI.parse(event.uri).fsPath;
+		if (isProjectConfigFile(file)) {
+			projectConfigChanged = true;
+			continue;
+		}
+		if (!file.endsWith('.sol')) {
+			continue;
+		}
 
-export function addDiagnostic(diagnostics: Diagnostic[], textDocument: TextDocument, range: Range, message: string, details: string, severity: DiagnosticSeverity, code: string, data: LSPAny) {
-	let diagnostic: Diagnostic = {
-		severity: severity,
-		range: range,
-		message: message,
-		source: "OpenZeppelin Language Server",
-		code: code,
-		data: data,
-	};
-	if (hasDiagnosticRelatedInformationCapability) {
-		diagnostic.relatedInformation = [
-			{
-				location: {
-					uri: textDocument.uri,
-					range: Object.assign({}, diagnostic.range)
-				},
-				message: details
-			}
-		];
+		if (event.type !== FileChangeType.Changed) {
+			// Dependencies may have been added to or removed from the `libs` folders, which remappings are inferred from
+			clearRemappingsCache();
+		}
+		if (event.type === FileChangeType.Deleted || !await isWorkspaceSourceFile(file, workspaceFolders)) {
+			removeFromNamespaceIndex(event.uri);
+		} else if (documents.get(event.uri) === undefined) {
+			// Open documents are indexed from their current content when they are validated
+			await indexFile(file);
+		}
 	}
-	diagnostics.push(diagnostic);
-}
 
-connection.onDidChangeWatchedFiles(_change => {
-	// Monitored files have change in VSCode
-	connection.console.log('We received a file change event');
+	if (projectConfigChanged) {
+		// The project roots, Solidity version, remappings and namespace prefix may have changed
+		clearProjectCache();
+		clearSolidityVersionCache();
+		clearRemappingsCache();
+		clearDocumentCache();
+		// The `src` folder of a Foundry project, which is indexed, may have changed
+		await indexWorkspaceNamespaces();
+		connection.languages.diagnostics.refresh();
+	}
 });
 
 // Make the text document manager listen on the connection
@@ -248,67 +306,134 @@ connection.onCodeAction(
 		let context : CodeActionContext = _params.context;
 		let diagnostics : Diagnostic[] = context.diagnostics;
 
-		codeActions = await getCodeActions(diagnostics, textDocument, _params);
+		codeActions = await getCodeActions(diagnostics, textDocument);
+
+		if (context.only === undefined || context.only.some(kind => CodeActionKind.QuickFix.startsWith(kind))) {
+			try {
+				codeActions.push(...await getSuppressionCodeActions(diagnostics, textDocument));
+			} catch (e) {
+				console.error(e);
+			}
+		}
+
+		if (context.only === undefined || context.only.some(kind => CodeActionKind.RefactorRewrite.startsWith(kind))) {
+			try {
+				const prefix = await getNamespacePrefix(textDocument);
+				const formula = await getNamespaceFormulaSetting(textDocument);
+				const formatting = await inferFormatting(textDocument);
+				const refactoring = await getInsertNamespaceRefactoring(`Insert ${formula.label} namespace`, prefix, formula, _params.range, textDocument, formatting.indent);
+				if (refactoring !== undefined) {
+					applyEol(refactoring.edit!, formatting.eol);
+					codeActions.push(refactoring);
+				}
+			} catch (e) {
+				console.error(e);
+			}
+		}
+
+		// only computed on request, such as for editor.codeActionsOnSave, since it validates the document several times
+		if (context.only !== undefined && context.only.some(kind => FIX_ALL_CODE_ACTION_KIND.startsWith(kind))) {
+			try {
+				const fixAll = await getFixAllCodeAction("Fix all OpenZeppelin namespace issues", textDocument);
+				if (fixAll !== undefined) {
+					codeActions.push(fixAll);
+				}
+			} catch (e) {
+				console.error(e);
+			}
+		}
 
 		return codeActions;
 	}
 )
 
-async function getCodeActions(diagnostics: Diagnostic[], textDocument: TextDocument, params: CodeActionParams) : Promise<CodeAction[]> {
-	let codeActions : CodeAction[] = [];
-	try {	
-		for (let i = 0; i < diagnostics.length; i++) {
-			let diagnostic = diagnostics[i];
-			if (String(diagnostic.code) === NAMESPACE_ID_MISMATCH) {
-				let title : string = "Replace namespace id";
-				let range : Range = diagnostic.range;
-				let replacement : string = String(diagnostic.data.replacement);
-				codeActions.push(getQuickFixReplacement([diagnostic], title, range, replacement, textDocument));
-			} else if (String(diagnostic.code) === NAMESPACE_ID_MISMATCH_HASH_COMMENT) {
-				let title : string = "Replace namespace comment";
-				let range : Range = diagnostic.range;
-				let replacement : string = String(diagnostic.data.replacement);
-				codeActions.push(getQuickFixReplacement([diagnostic], title, range, replacement, textDocument));
-			} else if (String(diagnostic.code) === NAMESPACE_HASH_MISMATCH) {
-				let title : string = "Recalculate hash using comment";
-				let range : Range = diagnostic.range;
-				let replacement : string = String(diagnostic.data.replacement);
-				codeActions.push(getQuickFixReplacement([diagnostic], title, range, replacement, textDocument));
-			} else if (String(diagnostic.code) === NAMESPACE_STANDALONE_HASH_MISMATCH) {
-				let title : string = "Recalculate hash using expected id";
-				let range : Range = diagnostic.range;
-				let replacement : string = String(diagnostic.data.replacement);
-				codeActions.push(getQuickFixReplacement([diagnostic], title, range, replacement, textDocument));
-			} else if (String(diagnostic.code) === CONTRACT_CAN_BE_NAMESPACED) {
-				const title = "Move all variables to namespace";
-				const prefix = await getNamespacePrefix(textDocument);;
-				const contractName = (diagnostic.data as NamespaceableContract).name;
-				const quickfix = await getMoveAllVariablesToNamespaceQuickFix(diagnostics, title, prefix, contractName, (diagnostic.data as NamespaceableContract).variables, textDocument); // this fixes all diagnostics in scope
-				if (quickfix !== undefined) {
-					codeActions.push(quickfix);
-				}
-			}
+connection.onHover(
+	async (params: HoverParams): Promise<Hover | undefined> => {
+		const textDocument = documents.get(params.textDocument.uri);
+		if (textDocument === undefined) {
+			return undefined;
+		}
+
+		try {
+			return await getHover(textDocument, params.position);
+		} catch (e) {
+			console.error(e);
+			return undefined;
 		}
-	} catch (e) {
-		console.error(e);
 	}
+);
 
-	return codeActions;
-}
+connection.onCompletion(
+	async (params: CompletionParams): Promise<CompletionItem[]> => {
+		const textDocument = documents.get(params.textDocument.uri);
+		if (textDocument === undefined) {
+			return [];
+		}
 
-function getQuickFixReplacement(fixesDiagnostics: Diagnostic[], title: string, range: Range, replacement: string, textDocument: TextDocument): CodeAction {
-	let textEdit: TextEdit = {
-		range: range,
-		newText: replacement
-	};
-	let workspaceEdit: WorkspaceEdit = {
-		changes: { [textDocument.uri]: [textEdit] }
-	};
-	let codeAction: CodeAction = {
-		title: title,
-		kind: CodeActionKind.QuickFix,
-		edit: workspaceEdit,
-		diagnostics: fixesDiagnostics,
-	};
-	return codeAction;
-}
+		try {
+			return await getCompletions(textDocument, params.position);
+		} catch (e) {
+			console.error(e);
+			return [];
+		}
+	}
+);
+
+connection.onCodeLens(
+	async (params: CodeLensParams): Promise<CodeLens[]> => {
+		const textDocument = documents.get(params.textDocument.uri);
+		if (textDocument === undefined) {
+			return [];
+		}
+
+		try {
+			return await getCodeLenses(textDocument);
+		} catch (e) {
+			console.error(e);
+			return [];
+		}
+	}
+);
+
+connection.onPrepareRename(
+	async (params: PrepareRenameParams): Promise<Range | undefined> => {
+		const textDocument = documents.get(params.textDocument.uri);
+		if (textDocument === undefined) {
+			return undefined;
+		}
+
+		try {
+			return await prepareContractRename(textDocument, params.position, uri => documents.get(uri));
+		} catch (e) {
+			console.error(e);
+			return undefined;
+		}
+	}
+);
+
+connection.onRenameRequest(
+	async (params: RenameParams): Promise<WorkspaceEdit | undefined> => {
+		const textDocument = documents.get(params.textDocument.uri);
+		if (textDocument === undefined) {
+			return undefined;
+		}
+
+		try {
+			return await getContractRenameEdit(textDocument, params.position, params.newName, uri => documents.get(uri));
+		} catch (e: any) {
+			console.error(e);
+			throw new ResponseError(ErrorCodes.InvalidRequest, e.message);
+		}
+	}
+);
+
+connection.onExecuteCommand(
+	async (params: ExecuteCommandParams) => {
+		if (params.command === INSERT_STORAGE_LOCATION_CONSTANT_COMMAND) {
+			const edit = getInsertStorageLocationConstantEdit(params.arguments);
+			if (edit !== undefined) {
+				await connection.workspace.applyEdit(edit);
+			}
+		}
+	}
+);
@@ -1,25 +1,120 @@
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
-import { getDocumentSettings, workspaceFolders } from './server';
+import { URI } from 'vscode-uri';
+import path from 'path';
+import { minimatch } from 'minimatch';
+import { getDocumentSettings, workspaceFolders } from './environment';
+import { getProject, getWorkspaceFolder, getWorkspaceRelativePath } from './workspace';
+import { ERC7201_FORMULA, getNamespaceFormula, NamespaceFormula } from './namespaceFormulas';
+
+export type DiagnosticSeveritySetting = 'off' | 'hint' | 'info' | 'warning' | 'error';
 
 export interface OpenZeppelinLSSettings {
 	solidityVersion?: string;
 	namespacePrefix?: string;
+	/**
+	 * The name of the formula for new namespaces, such as `erc7201` or `keccak256`. ERC-7201 is used if empty.
+	 */
+	namespaceFormula?: string;
+	/**
+	 * The severity of each diagnostic code, overriding its default severity
+	 */
+	diagnostics?: { [code: string]: DiagnosticSeveritySetting };
+	/**
+	 * Glob patterns of the files to validate. All files are validated if empty.
+	 */
+	include?: string[];
+	/**
+	 * Glob patterns of the files not to validate
+	 */
+	exclude?: string[];
+	/**
+	 * Base contract names or NatSpec tags, such as `MyInitializable` or `@custom:proxied`, that mark a contract as upgradeable
+	 * in addition to the built-in ones
+	 */
+	upgradeableMarkers?: string[];
+}
+
+const SEVERITY_SETTINGS: Record<DiagnosticSeveritySetting, DiagnosticSeverity | undefined> = {
+	off: undefined,
+	hint: DiagnosticSeverity.Hint,
+	info: DiagnosticSeverity.Information,
+	warning: DiagnosticSeverity.Warning,
+	error: DiagnosticSeverity.Error,
+};
+
+/**
+ * Merges the settings from a project's `.openzeppelin-ls.json` with the editor settings.
+ * Each setting defined in the project takes precedence, since it is shared by everyone working on the project,
+ * and diagnostic severities are merged per code.
+ */
+export function mergeSettings(projectSettings: OpenZeppelinLSSettings, editorSettings: OpenZeppelinLSSettings): OpenZeppelinLSSettings {
+	return {
+		solidityVersion: projectSettings.solidityVersion ?? editorSettings.solidityVersion,
+		namespacePrefix: projectSettings.namespacePrefix ?? editorSettings.namespacePrefix,
+		namespaceFormula: projectSettings.namespaceFormula ?? editorSettings.namespaceFormula,
+		diagnostics: { ...editorSettings.diagnostics, ...projectSettings.diagnostics },
+		include: projectSettings.include ?? editorSettings.include,
+		exclude: projectSettings.exclude ?? editorSettings.exclude,
+		upgradeableMarkers: projectSettings.upgradeableMarkers ?? editorSettings.upgradeableMarkers,
+	};
+}
+
+/**
+ * Applies the severity settings to diagnostics, removing the diagnostics that are turned off.
+ */
+export function applySeveritySettings(diagnostics: Diagnostic[], settings: OpenZeppelinLSSettings): Diagnostic[] {
+	const result: Diagnostic[] = [];
+	for (const diagnostic of diagnostics) {
+		const severitySetting = settings.diagnostics?.[String(diagnostic.code)];
+		if (severitySetting === undefined || !(severitySetting in SEVERITY_SETTINGS)) {
+			result.push(diagnostic);
+		} else if (SEVERITY_SETTINGS[severitySetting] !== undefined) {
+			result.push({ ...diagnostic, severity: SEVERITY_SETTINGS[severitySetting] });
+		}
+	}
+	return result;
 }
 
 /**
- * Gets the namespace prefix from the settings or the workspace folder name.
+ * Whether a document should be validated according to the include and exclude settings.
+ * Patterns are matched against the document's path relative to its workspace folder, and relative to its project root.
+ */
+export async function isIncludedDocument(textDocument: TextDocument, settings: OpenZeppelinLSSettings): Promise<boolean> {
+	const include = settings.include ?? [];
+	const exclude = settings.exclude ?? [];
+	if (include.length === 0 && exclude.length === 0) {
+		return true;
+	}
+
+	const file = URI.parse(textDocument.uri).fsPath;
+	const project = await getProject(file, workspaceFolders);
+	const relativePaths = [getWorkspaceRelativePath(file, workspaceFolders), ...(project !== undefined ? [path.relative(project.root, file)] : [])]
+		.map(relativePath => relativePath.split(path.sep).join('/'));
+
+	const matches = (patterns: string[]) => patterns.some(pattern => relativePaths.some(relativePath => minimatch(relativePath, pattern, { dot: true })));
+	return (include.length === 0 || matches(include)) && !matches(exclude);
+}
+
+/**
+ * Gets the namespace prefix from the settings, including a project's `.openzeppelin-ls.json`, or from the project that the document belongs to.
+ * The project's package name is used if it has one, for example `@acme/token` becomes `acme.token`.
+ * Otherwise, the name of the project's folder or the workspace folder that contains the document is used.
  */
 export async function getNamespacePrefix(textDocument: TextDocument) {
 	const settings = await getDocumentSettings(textDocument.uri);
 	let namespacePrefix = settings.namespacePrefix;
 
 	if (!namespacePrefix) {
-		console.log("No namespace prefix set. Detecting based on workspace name.");
+		console.log("No namespace prefix set. Detecting based on project name.");
 
-		if (workspaceFolders.length > 0) {
-			// for now we just use the folder name of the first workspace folder
-			// TODO: detect project name from hardhat or foundry project?
-			const folderName = workspaceFolders[0].split('/').pop()!;
+		const file = URI.parse(textDocument.uri).fsPath;
+		const project = await getProject(file, workspaceFolders);
+		const folder = project?.root ?? getWorkspaceFolder(file, workspaceFolders);
+		if (project?.packageName !== undefined) {
+			namespacePrefix = project.packageName.replace(/^@/, '').replace(/\//g, '.');
+		} else if (folder !== undefined) {
+			const folderName = path.basename(folder);
 			// convert whitespace to dash
 			namespacePrefix = folderName.replace(/\s+/g, '-');
 		}
@@ -29,3 +124,21 @@ export async function getNamespacePrefix(textDocument: TextDocument) {
 
 	return namespacePrefix ?? '';
 }
+
+/**
+ * Gets the formula for new namespaces from the settings, including a project's `.openzeppelin-ls.json`.
+ * ERC-7201 is used if the setting is empty or does not name a registered formula.
+ */
+export async function getNamespaceFormulaSetting(textDocument: TextDocument): Promise<NamespaceFormula> {
+	const settings = await getDocumentSettings(textDocument.uri);
+	if (!settings.namespaceFormula) {
+		return ERC7201_FORMULA;
+	}
+
+	const formula = getNamespaceFormula(settings.namespaceFormula);
+	if (formula === undefined) {
+		console.error(`Unknown namespace formula: ${settings.namespaceFormula}`);
+		return ERC7201_FORMULA;
+	}
+	return formula;
+}
@@ -3,11 +3,47 @@ import { TextDocument} from 'vscode-languageserver-textdocument';
 
 import { Language } from '@nomicfoundation/slang/language';
 
-import { getHighestSupportedPragmaVersion } from './helpers/slang';
-import { getDocumentSettings } from './server';
+import { getHighestPragmaVersion, getHighestSupportedPragmaVersion } from './helpers/slang';
+import { getDocumentSettings } from './environment';
+import { readFoundryConfig } from './foundry';
+import { getHardhatCompilerVersion, HardhatSolidityConfig, readHardhatConfig } from './hardhat';
+import { getProject } from './workspace';
 
 import path from 'path';
-import { promises as fs } from 'fs';
+import { URI } from 'vscode-uri';
+
+/**
+ * The Solidity version from a Foundry config, or the compilers from a Hardhat config
+ */
+type SolidityVersionConfig =
+	| { source: 'Foundry', version: string }
+	| { source: 'Hardhat', root: string, config: HardhatSolidityConfig };
+
+/**
+ * The Solidity version configs of each project root or set of workspace folders, until the config files change.
+ */
+const configCache: Map<string, Promise<SolidityVersionConfig | undefined>> = new Map();
+
+const languages: Map<string, Language> = new Map();
+
+/**
+ * Gets a language for the Solidity version, reusing the same instance for each version.
+ */
+export function getLanguage(solidityVersion: string): Language {
+	let language = languages.get(solidityVersion);
+	if (language === undefined) {
+		language = new Language(solidityVersion);
+		languages.set(solidityVersion, language);
+	}
+	return language;
+}
+
+/**
+ * Clears the cached Solidity versions from config files, so that they are read again when a version is next inferred.
+ */
+export function clearSolidityVersionCache() {
+	configCache.clear();
+}
 
 /**
  * Tries to infer the Solidity version in the following order:
@@ -23,18 +59,23 @@ export async function inferSolidityVersion(textDocument: TextDocument, workspace
 		return versionFromSetting;
 	}
 
-	const versionFromFoundry = await inferSolidityVersionFromFoundry(workspaceFolders);
-	if (versionFromFoundry) {
-		console.log("Using Solidity version from Foundry config: " + versionFromFoundry);
-		return versionFromFoundry;
-	}
+	// configs are read from the project that the document belongs to
+	const project = await getProject(URI.parse(textDocument.uri).fsPath, workspaceFolders);
+	const roots = project !== undefined ? [project.root] : workspaceFolders;
 
-	const versionFromHardhat = await inferSolidityVersionFromHardhat(workspaceFolders);
-	if (versionFromHardhat) {
-		console.log("Using Solidity version from Hardhat config: " + versionFromHardhat);
-		return versionFromHardhat;
+	const key = roots.join(path.delimiter);
+	let cachedConfig = configCache.get(key);
+	if (cachedConfig === undefined) {
+		cachedConfig = readSolidityVersionConfig(roots);
+		configCache.set(key, cachedConfig);
 	}
-	
+	const config = await cachedConfig;
+	const versionFromConfig = config !== undefined ? getVersionFromConfig(config, textDocument) : undefined;
+	if (config !== undefined && versionFromConfig) {
+		console.log(`Using Solidity version from ${config.source} config: ${versionFromConfig}`);
+		return versionFromConfig;
+	}
+
 	const versionFromPragma = getHighestSupportedPragmaVersion(textDocument);
 	if (versionFromPragma) {
 		console.log("Using Solidity version from pragma: " + versionFromPragma);
@@ -45,60 +86,31 @@ export async function inferSolidityVersion(textDocument: TextDocument, workspace
 	return Language.supportedVersions()[Language.supportedVersions().length - 1];
 }
 
-async function inferSolidityVersionFromFoundry(workspaceFolders: string[]) {
-	const regex = /solc\s*=\s*["']([^"']+)["']/;
-
-	if (workspaceFolders.length > 0) {
-		for (const workspaceFolder of workspaceFolders) {
-			const foundryConfigPath = path.join(workspaceFolder, 'foundry.toml');
-			const version = await inferVersionFromConfig(foundryConfigPath, regex);
-			if (version) {
-				return version;
-			}
+async function readSolidityVersionConfig(roots: string[]): Promise<SolidityVersionConfig | undefined> {
+	for (const root of roots) {
+		const version = (await readFoundryConfig(root))?.solcVersion;
+		if (version) {
+			return { source: 'Foundry', version };
 		}
 	}
-	return undefined;
-}
 
-async function inferSolidityVersionFromHardhat(workspaceFolders: string[]) {
-	const regex = /solidity:[\s]*{[\s]*version:[\s]*["']([^"']+)["']/;
-
-	if (workspaceFolders.length > 0) {
-		for (const workspaceFolder of workspaceFolders) {
-			const hardhatConfigTsPath = path.join(workspaceFolder, 'hardhat.config.ts');
-			const versionTs = await inferVersionFromConfig(hardhatConfigTsPath, regex);
-			if (versionTs) {
-				return versionTs;
-			}
-
-			const hardhatConfigJsPath = path.join(workspaceFolder, 'hardhat.config.js');
-			const versionJs = await inferVersionFromConfig(hardhatConfigJsPath, regex);
-			if (versionJs) {
-				return versionJs;
-			}
+	for (const root of roots) {
+		const config = await readHardhatConfig(root);
+		if (config !== undefined) {
+			return { source: 'Hardhat', root, config };
 		}
 	}
 	return undefined;
 }
 
-async function inferVersionFromConfig(filePath: string, regex: RegExp) {
-	if (await exists(filePath)) {
-		const configFile = await fs.readFile(filePath, 'utf8');
-
-		const solidityVersion = configFile.match(regex);
-		if (solidityVersion && solidityVersion[1]) {
-			return solidityVersion[1];
-		} else {
-			return undefined;
-		}
+/**
+ * Gets the version from a Foundry config, or the version of the compiler that Hardhat uses for the document.
+ */
+function getVersionFromConfig(config: SolidityVersionConfig, textDocument: TextDocument): string | undefined {
+	if (config.source === 'Foundry') {
+		return config.version;
 	}
-}
 
-async function exists(file: string): Promise<boolean> {
-	try {
-		await fs.access(file);
-		return true;
-	} catch (e: any) {
-		return false;
-	}
-}
\ No newline at end of file
+	const sourceName = path.relative(config.root, URI.parse(textDocument.uri).fsPath);
+	return getHardhatCompilerVersion(config.config, sourceName, versions => getHighestPragmaVersion(textDocument, versions));
+}
@@ -0,0 +1,216 @@
+import { CodeAction, CodeActionKind, Diagnostic } from 'vscode-languageserver/node';
+import { TextDocument, TextEdit } from 'vscode-languageserver-textdocument';
+import { NonterminalKind, TerminalKind } from '@nomicfoundation/slang/kinds';
+import { NonterminalNode, TerminalNode } from '@nomicfoundation/slang/cst';
+import { ContractDefinition } from '@nomicfoundation/slang/ast';
+import { cursor, parse_output, text_index } from '@nomicfoundation/slang';
+import assert = require('node:assert');
+import { getTrimmedRange, isTrivia, slangToVSCodeRange } from './helpers/slang';
+import { parseTextDocument } from './documentCache';
+import { applyEol, inferFormatting } from './formatting';
+
+/**
+ * A comment that suppresses diagnostics on the next line, such as `// openzeppelin-ls-disable-next-line MultipleNamespaces`.
+ * Without any codes, all diagnostics on the next line are suppressed.
+ */
+export const DISABLE_NEXT_LINE_COMMENT = 'openzeppelin-ls-disable-next-line';
+
+/**
+ * A NatSpec tag that suppresses diagnostics in a contract, such as `/// @custom:oz-ls-ignore MultipleNamespaces`.
+ * Without any codes, all diagnostics in the contract are suppressed.
+ */
+export const IGNORE_NATSPEC_TAG = '@custom:oz-ls-ignore';
+
+const DISABLE_NEXT_LINE_REGEX = new RegExp(`^//\\s*${DISABLE_NEXT_LINE_COMMENT}\\b(.*)$`);
+const IGNORE_NATSPEC_TAG_REGEX = new RegExp(`${IGNORE_NATSPEC_TAG}\\b([^@\\n]*)`, 'g');
+
+type Suppression = {
+	startLine: number;
+	endLine: number;
+	/**
+	 * The suppressed codes, or undefined if all codes are suppressed
+	 */
+	codes: string[] | undefined;
+}
+
+/**
+ * Removes the diagnostics that are suppressed by `// openzeppelin-ls-disable-next-line` comments
+ * or by `@custom:oz-ls-ignore` tags in the NatSpec of their contract.
+ */
+export function removeSuppressedDiagnostics(diagnostics: Diagnostic[], parseOutput: parse_output.ParseOutput, textDocument: TextDocument): Diagnostic[] {
+	const suppressions = getSuppressions(parseOutput, textDocument);
+	if (suppressions.length === 0) {
+		return diagnostics;
+	}
+
+	return diagnostics.filter(diagnostic => !suppressions.some(suppression =>
+		suppression.startLine <= diagnostic.range.start.line &&
+		diagnostic.range.start.line <= suppression.endLine &&
+		(suppression.codes === undefined || suppression.codes.includes(String(diagnostic.code)))
+	));
+}
+
+/**
+ * Gets quick fixes that suppress each diagnostic, either on its line or in its contract.
+ */
+export async function getSuppressionCodeActions(diagnostics: Diagnostic[], textDocument: TextDocument): Promise<CodeAction[]> {
+	const codeActions: CodeAction[] = [];
+
+	const { parseOutput } = await parseTextDocument(textDocument);
+	const formatting = await inferFormatting(textDocument);
+
+	for (const diagnostic of diagnostics) {
+		if (diagnostic.code === undefined) {
+			continue;
+		}
+		const code = String(diagnostic.code);
+
+		codeActions.push({
+			title: `Suppress ${code} on this line`,
+			kind: CodeActionKind.QuickFix,
+			diagnostics: [diagnostic],
+			edit: { changes: { [textDocument.uri]: [getDisableNextLineEdit(code, diagnostic.range.start.line, textDocument)] } },
+		});
+
+		const contractCursor = findContractAtLine(parseOutput, textDocument, diagnostic.range.start.line);
+		if (contractCursor !== undefined) {
+			const contractNode = contractCursor.node();
+			assert(contractNode instanceof NonterminalNode);
+			codeActions.push({
+				title: `Suppress ${code} in contract ${new ContractDefinition(contractNode).name.text}`,
+				kind: CodeActionKind.QuickFix,
+				diagnostics: [diagnostic],
+				edit: { changes: { [textDocument.uri]: [getIgnoreTagEdit(code, contractCursor, textDocument)] } },
+			});
+		}
+	}
+
+	for (const codeAction of codeActions) {
+		applyEol(codeAction.edit!, formatting.eol);
+	}
+	return codeActions;
+}
+
+function getSuppressions(parseOutput: parse_output.ParseOutput, textDocument: TextDocument): Suppression[] {
+	const suppressions: Suppression[] = [];
+
+	const commentCursor = parseOutput.createTreeCursor();
+	while (commentCursor.goToNextTerminalWithKind(TerminalKind.SingleLineComment)) {
+		const node = commentCursor.node();
+		assert(node instanceof TerminalNode);
+
+		const match = node.text.match(DISABLE_NEXT_LINE_REGEX);
+		if (match !== null) {
+			const nextLine = textDocument.positionAt(commentCursor.textRange.start.utf16).line + 1;
+			suppressions.push({ startLine: nextLine, endLine: nextLine, codes: parseCodes(match[1]) });
+		}
+	}
+
+	const contractCursor = parseOutput.createTreeCursor();
+	while (contractCursor.goToNextNonterminalWithKind(NonterminalKind.ContractDefinition)) {
+		const range = slangToVSCodeRange(textDocument, getTrimmedRange(contractCursor));
+		for (const natSpec of getLeadingNatSpecs(contractCursor)) {
+			for (const match of natSpec.text.matchAll(IGNORE_NATSPEC_TAG_REGEX)) {
+				suppressions.push({ startLine: range.start.line, endLine: range.end.line, codes: parseCodes(match[1].replace('*/', '')) });
+			}
+		}
+	}
+
+	return suppressions;
+}
+
+function parseCodes(text: string): string[] | undefined {
+	const codes = text.split(/[\s,*]+/).filter(code => code.length > 0);
+	return codes.length > 0 ? codes : undefined;
+}
+
+/**
+ * Gets all NatSpec comments in the leading trivia of the cursor's node, since each line of a `///` NatSpec is a separate comment.
+ */
+function getLeadingNatSpecs(nodeCursor: cursor.Cursor): { text: string, textRange: text_index.TextRange }[] {
+	const natSpecs = [];
+
+	const triviaCursor = nodeCursor.spawn();
+	while (triviaCursor.goToNextTerminal()) {
+		const node = triviaCursor.node();
+		assert(node instanceof TerminalNode);
+		if (!isTrivia(node)) {
+			break;
+		}
+		if (node.kind === TerminalKind.SingleLineNatSpecComment || node.kind === TerminalKind.MultiLineNatSpecComment) {
+			natSpecs.push({ text: node.text, textRange: triviaCursor.textRange });
+		}
+	}
+
+	return natSpecs;
+}
+
+function findContractAtLine(parseOutput: parse_output.ParseOutput, textDocument: TextDocument, line: number): cursor.Cursor | undefined {
+	const contractCursor = parseOutput.createTreeCursor();
+	while (contractCursor.goToNextNonterminalWithKind(NonterminalKind.ContractDefinition)) {
+		const range = slangToVSCodeRange(textDocument, getTrimmedRange(contractCursor));
+		if (range.start.line <= line && line <= range.end.line) {
+			return contractCursor.clone();
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Adds the code to a `// openzeppelin-ls-disable-next-line` comment on the previous line, or inserts such a comment.
+ */
+function getDisableNextLineEdit(code: string, line: number, textDocument: TextDocument): TextEdit {
+	const lineText = getLineText(textDocument, line);
+	const indent = lineText.match(/^\s*/)![0];
+
+	if (line > 0) {
+		const previousLineText = getLineText(textDocument, line - 1).trimEnd();
+		const match = previousLineText.trim().match(DISABLE_NEXT_LINE_REGEX);
+		if (match !== null && parseCodes(match[1]) !== undefined) {
+			const end = { line: line - 1, character: previousLineText.length };
+			return { range: { start: end, end }, newText: `, ${code}` };
+		}
+	}
+
+	const start = { line, character: 0 };
+	return { range: { start, end: start }, newText: `${indent}// ${DISABLE_NEXT_LINE_COMMENT} ${code}\n` };
+}
+
+/**
+ * Adds the code to an `@custom:oz-ls-ignore` tag in a `///` NatSpec line of the contract, or adds such a tag to the NatSpec
+ * of the contract. The tag is added within the existing NatSpec, since other tags such as `@custom:oz-upgrades` must stay in it.
+ */
+function getIgnoreTagEdit(code: string, contractCursor: cursor.Cursor, textDocument: TextDocument): TextEdit {
+	const natSpecs = getLeadingNatSpecs(contractCursor);
+	for (const natSpec of natSpecs) {
+		const match = natSpec.text.match(IGNORE_NATSPEC_TAG_REGEX);
+		if (natSpec.text.startsWith('///') && match !== null && parseCodes(match[0].substring(IGNORE_NATSPEC_TAG.length)) !== undefined) {
+			const end = textDocument.positionAt(natSpec.textRange.start.utf16 + natSpec.text.trimEnd().length);
+			return { range: { start: end, end }, newText: `, ${code}` };
+		}
+	}
+
+	const contractStart = slangToVSCodeRange(textDocument, getTrimmedRange(contractCursor)).start;
+	const indent = getLineText(textDocument, contractStart.line).match(/^\s*/)![0];
+
+	const lastNatSpec = natSpecs[natSpecs.length - 1];
+	if (lastNatSpec !== undefined && lastNatSpec.text.startsWith('/**')) {
+		// a `///` line after a `/** */` comment would start a separate NatSpec
+		const closeOffset = lastNatSpec.textRange.start.utf16 + lastNatSpec.text.lastIndexOf('*/');
+		const close = textDocument.positionAt(closeOffset);
+		if (getLineText(textDocument, close.line).substring(0, close.character).trim() === '') {
+			const start = { line: close.line, character: 0 };
+			return { range: { start, end: start }, newText: `${indent} * ${IGNORE_NATSPEC_TAG} ${code}\n` };
+		}
+		return { range: { start: close, end: close }, newText: `${IGNORE_NATSPEC_TAG} ${code} ` };
+	}
+
+	// directly after the last NatSpec line, which may be separated from the contract by other comments or blank lines
+	const line = lastNatSpec !== undefined ? textDocument.positionAt(lastNatSpec.textRange.start.utf16).line + 1 : contractStart.line;
+	const start = { line, character: 0 };
+	return { range: { start, end: start }, newText: `${indent}/// ${IGNORE_NATSPEC_TAG} ${code}\n` };
+}
+
+function getLineText(textDocument: TextDocument, line: number): string {
+	return textDocument.getText({ start: { line, character: 0 }, end: { line: line + 1, character: 0 } }).replace(/\r?\n$/, '');
+}
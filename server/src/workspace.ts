@@ -0,0 +1,199 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import { OpenZeppelinLSSettings } from './settings';
+import { readFoundryConfig } from './foundry';
+import { PROJECT_SETTINGS_FILE, readProjectSettings } from './projectSettings';
+
+/**
+ * Directories that contain dependencies or build outputs rather than project sources.
+ */
+const IGNORED_DIRECTORIES = ['node_modules', 'lib', 'out', 'cache', 'artifacts', 'typechain-types'];
+
+/**
+ * Files that the settings, Solidity version, import remappings or namespace prefix of a project are read from.
+ */
+const PROJECT_CONFIG_FILES = [PROJECT_SETTINGS_FILE, 'foundry.toml', 'hardhat.config.ts', 'hardhat.config.js', 'remappings.txt', 'package.json'];
+
+/**
+ * Files that mark the root folder of a project.
+ */
+const PROJECT_ROOT_FILES = [PROJECT_SETTINGS_FILE, 'foundry.toml', 'hardhat.config.ts', 'hardhat.config.js', 'package.json'];
+
+export type Project = {
+	root: string;
+	/**
+	 * The name in the project's `package.json`, if any
+	 */
+	packageName?: string;
+	/**
+	 * The settings in the project's `.openzeppelin-ls.json`, if any
+	 */
+	settings?: OpenZeppelinLSSettings;
+}
+
+/**
+ * The project of each folder with Solidity files, until the cache is cleared.
+ */
+const projectCache: Map<string, Promise<Project | undefined>> = new Map();
+
+/**
+ * Recursively finds all Solidity files in the given folders, skipping dependency and build output directories.
+ *
+ * @param foundrySourcesOnly whether to only search the `src` folder of Foundry projects, skipping tests and scripts
+ */
+export async function findSolidityFiles(folders: string[], foundrySourcesOnly = false): Promise<string[]> {
+	const result: string[] = [];
+	for (const folder of folders) {
+		await collectSolidityFiles(folder, foundrySourcesOnly, result);
+	}
+	return result;
+}
+
+async function collectSolidityFiles(dir: string, foundrySourcesOnly: boolean, result: string[]) {
+	let entries;
+	try {
+		entries = await fs.readdir(dir, { withFileTypes: true });
+	} catch (e: any) {
+		console.error(`Could not read directory ${dir}: ${e}`);
+		return;
+	}
+
+	if (foundrySourcesOnly && entries.some(entry => entry.isFile() && entry.name === 'foundry.toml')) {
+		const sourceFolder = await getFoundrySourceFolder(dir);
+		if (sourceFolder !== undefined && sourceFolder !== dir) {
+			await collectSolidityFiles(sourceFolder, foundrySourcesOnly, result);
+			return;
+		}
+	}
+
+	for (const entry of entries) {
+		const entryPath = path.join(dir, entry.name);
+		if (entry.isDirectory()) {
+			if (!entry.name.startsWith('.') && !IGNORED_DIRECTORIES.includes(entry.name)) {
+				await collectSolidityFiles(entryPath, foundrySourcesOnly, result);
+			}
+		} else if (entry.isFile() && entry.name.endsWith('.sol')) {
+			result.push(entryPath);
+		}
+	}
+}
+
+/**
+ * Whether a Solidity file would be found by `findSolidityFiles` in the given folders with `foundrySourcesOnly`,
+ * which is not the case for files outside the `src` folder of a Foundry project, such as tests and scripts.
+ */
+export async function isWorkspaceSourceFile(file: string, folders: string[]): Promise<boolean> {
+	const workspaceFolder = getWorkspaceFolder(file, folders);
+	if (workspaceFolder === undefined) {
+		return false;
+	}
+
+	if (path.relative(workspaceFolder, path.dirname(file)).split(path.sep).some(dir => dir.startsWith('.') || IGNORED_DIRECTORIES.includes(dir))) {
+		return false;
+	}
+
+	let dir = path.dirname(file);
+	for (;;) {
+		const sourceFolder = await getFoundrySourceFolder(dir);
+		if (sourceFolder !== undefined) {
+			return isInFolder(file, sourceFolder);
+		}
+		if (dir === workspaceFolder || path.dirname(dir) === dir) {
+			return true;
+		}
+		dir = path.dirname(dir);
+	}
+}
+
+/**
+ * Gets the `src` folder of the Foundry project in a folder.
+ *
+ * @returns The absolute path of the `src` folder, or undefined if the folder has no `foundry.toml` or its `src` folder does not exist
+ */
+async function getFoundrySourceFolder(dir: string): Promise<string | undefined> {
+	const foundryConfig = await readFoundryConfig(dir);
+	if (foundryConfig === undefined) {
+		return undefined;
+	}
+	const sourceFolder = path.resolve(dir, foundryConfig.src);
+	const stat = await fs.stat(sourceFolder).catch(() => undefined);
+	return stat?.isDirectory() ? sourceFolder : undefined;
+}
+
+/**
+ * Gets the path of a file relative to the workspace folder that contains it, or the absolute path if it is outside of the workspace.
+ */
+export function getWorkspaceRelativePath(file: string, folders: string[]): string {
+	const folder = getWorkspaceFolder(file, folders);
+	return folder !== undefined ? path.relative(folder, file) : file;
+}
+
+/**
+ * Gets the workspace folder that contains a file, or undefined if it is outside of the workspace.
+ */
+export function getWorkspaceFolder(file: string, folders: string[]): string | undefined {
+	return folders.find(folder => isInFolder(file, folder));
+}
+
+function isInFolder(file: string, folder: string) {
+	const relative = path.relative(folder, file);
+	return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * Whether the file is a project config file, and not one of a dependency.
+ */
+export function isProjectConfigFile(file: string): boolean {
+	return PROJECT_CONFIG_FILES.includes(path.basename(file)) && !path.dirname(file).split(path.sep).some(dir => IGNORED_DIRECTORIES.includes(dir));
+}
+
+/**
+ * Gets the project that a file belongs to, which is the nearest folder above the file with a `.openzeppelin-ls.json`,
+ * Foundry config, Hardhat config or `package.json`, without leaving the workspace folder that contains the file.
+ *
+ * @returns The project, or undefined if there is no such folder
+ */
+export function getProject(file: string, folders: string[]): Promise<Project | undefined> {
+	const dir = path.dirname(file);
+	let project = projectCache.get(dir);
+	if (project === undefined) {
+		project = findProject(dir, folders);
+		projectCache.set(dir, project);
+	}
+	return project;
+}
+
+/**
+ * Clears the cached projects, such as when project config files are created or deleted.
+ */
+export function clearProjectCache() {
+	projectCache.clear();
+}
+
+async function findProject(dir: string, folders: string[]): Promise<Project | undefined> {
+	const workspaceFolder = getWorkspaceFolder(dir, folders);
+
+	let current = dir;
+	for (;;) {
+		for (const rootFile of PROJECT_ROOT_FILES) {
+			if (await fs.access(path.join(current, rootFile)).then(() => true, () => false)) {
+				return { root: current, packageName: await readPackageName(current), settings: await readProjectSettings(current) };
+			}
+		}
+
+		const parent = path.dirname(current);
+		if (current === workspaceFolder || parent === current) {
+			return undefined;
+		}
+		current = parent;
+	}
+}
+
+async function readPackageName(root: string): Promise<string | undefined> {
+	try {
+		const packageJson = JSON.parse(await fs.readFile(path.join(root, 'package.json'), 'utf8'));
+		return typeof packageJson.name === 'string' && packageJson.name.length > 0 ? packageJson.name : undefined;
+	} catch (e: any) {
+		return undefined;
+	}
+}